@@ -1,17 +1,49 @@
 // @ts-check
-import { defineConfig } from 'astro/config';
+import { defineConfig, envField } from 'astro/config';
 import sitemap from '@astrojs/sitemap';
+import mdx from '@astrojs/mdx';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_INFO } from './src/i18n/config.ts';
+import mockContactEndpoint from './src/integrations/mockContactEndpoint.ts';
+import { SITE } from './src/config/site.ts';
 
 // https://astro.build/config
 export default defineConfig({
-  site: 'https://driftlab.ro',
+  site: SITE.url,
   integrations: [
+    mdx(),
     sitemap({
       changefreq: 'weekly',
       priority: 0.7,
       lastmod: new Date(),
+      // Links each page to its translations (xhtml:link hreflang alternates)
+      i18n: {
+        defaultLocale: DEFAULT_LOCALE,
+        locales: Object.fromEntries(LOCALES.map((locale) => [locale, LOCALE_INFO[locale].htmlLang])),
+      },
     }),
+    // Dev server only: fake endpoint for the contact form
+    mockContactEndpoint(),
   ],
+  env: {
+    schema: {
+      // Where the contact form POSTs (Formspree, a serverless function...). Unset: the form opens the visitor's email app
+      PUBLIC_CONTACT_ENDPOINT: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      // Recipient of the email-app fallback
+      PUBLIC_CONTACT_EMAIL: envField.string({
+        context: 'client',
+        access: 'public',
+        default: SITE.contacts[0].email,
+      }),
+    },
+  },
+  // Routes live in src/pages/[...lang]/; this tells Astro.currentLocale which prefixes are locales
+  i18n: {
+    locales: [...LOCALES],
+    defaultLocale: DEFAULT_LOCALE,
+    routing: {
+      prefixDefaultLocale: false,
+    },
+  },
   server: {
     host: true, // Listen on all network interfaces (0.0.0.0)
     port: 4321, // Default Astro port
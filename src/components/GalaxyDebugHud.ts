@@ -0,0 +1,295 @@
+import { Color } from 'three';
+import type { GalaxySystem, GalaxySettings, GalaxySettingsOverrides } from './GalaxySystem';
+
+/**
+ * On-page debug overlay for tuning the hero galaxy.
+ *
+ * Shows live renderer stats and exposes sliders for the most tweaked settings. Changes are
+ * applied to the running galaxy for the current device tier only; "Copy JSON" copies the
+ * resolved settings so they can be pasted into GalaxyOptions.ts or a page's galaxyOptions.
+ * Loaded on demand by Hero.astro (?debug=galaxy or Alt+Shift+G), never part of the main bundle.
+ */
+
+interface RangeControl {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  read: (settings: GalaxySettings) => number;
+  write: (value: number, settings: GalaxySettings) => GalaxySettingsOverrides;
+}
+
+const RANGE_CONTROLS: RangeControl[] = [
+  { label: 'Particles', min: 500, max: 60000, step: 500, read: (s) => s.particlesCount, write: (v) => ({ particlesCount: v }) },
+  { label: 'Particle scale', min: 0.05, max: 1, step: 0.05, read: (s) => s.particleScale, write: (v) => ({ particleScale: v }) },
+  { label: 'Radius', min: 5, max: 40, step: 0.5, read: (s) => s.radius, write: (v) => ({ radius: v }) },
+  { label: 'Arms', min: 1, max: 8, step: 1, read: (s) => s.branches, write: (v) => ({ branches: v }) },
+  { label: 'Spin', min: -3, max: 3, step: 0.05, read: (s) => s.spin, write: (v) => ({ spin: v }) },
+  { label: 'Randomness', min: 0, max: 2, step: 0.05, read: (s) => s.randomness, write: (v) => ({ randomness: v }) },
+  { label: 'Randomness power', min: 1, max: 6, step: 0.1, read: (s) => s.randomnessPower, write: (v) => ({ randomnessPower: v }) },
+  { label: 'Density power', min: 1, max: 5, step: 0.1, read: (s) => s.densityPower, write: (v) => ({ densityPower: v }) },
+  { label: 'Opacity', min: 0.05, max: 1, step: 0.05, read: (s) => s.baseOpacity, write: (v) => ({ baseOpacity: v }) },
+  { label: 'Particle size', min: 0.02, max: 0.5, step: 0.01, read: (s) => s.particleSize, write: (v) => ({ particleSize: v }) },
+  { label: 'Member star size', min: 0.2, max: 2, step: 0.05, read: (s) => s.memberStarSize, write: (v) => ({ memberStarSize: v }) },
+  { label: 'Time step', min: 0, max: 0.03, step: 0.0005, read: (s) => s.timeStep, write: (v) => ({ timeStep: v }) },
+  { label: 'Rotation speed', min: 0, max: 0.0005, step: 0.00001, read: (s) => s.rotationSpeed, write: (v) => ({ rotationSpeed: v }) },
+  { label: 'Tilt', min: -1.5, max: 1.5, step: 0.01, read: (s) => s.tilt, write: (v) => ({ tilt: v }) },
+  { label: 'Yaw', min: -3.14, max: 3.14, step: 0.01, read: (s) => s.yaw, write: (v) => ({ yaw: v }) },
+  { label: 'Parallax', min: 0, max: 3, step: 0.1, read: (s) => s.parallaxStrength, write: (v) => ({ parallaxStrength: v }) },
+  { label: 'Max pixel ratio', min: 0.5, max: 3, step: 0.25, read: (s) => s.maxPixelRatio, write: (v) => ({ maxPixelRatio: v }) },
+  { label: 'Camera FOV', min: 30, max: 110, step: 1, read: (s) => s.camera.fov, write: (v) => ({ camera: { fov: v } }) },
+  {
+    label: 'Camera Y', min: 0, max: 30, step: 0.5,
+    read: (s) => s.camera.position.y,
+    write: (v, s) => ({ camera: { position: { ...s.camera.position, y: v } } }),
+  },
+  {
+    label: 'Camera Z', min: 1, max: 40, step: 0.5,
+    read: (s) => s.camera.position.z,
+    write: (v, s) => ({ camera: { position: { ...s.camera.position, z: v } } }),
+  },
+];
+
+const COLOR_CONTROLS = [
+  { label: 'Inside color', key: 'insideColor' },
+  { label: 'Outside color', key: 'outsideColor' },
+] as const;
+
+// How often the stats panel refreshes (it keeps running while the galaxy is paused)
+const STATS_INTERVAL_MS = 250;
+
+const HUD_STYLES = `
+  .galaxy-debug-hud {
+    position: fixed;
+    top: 1rem;
+    right: 1rem;
+    z-index: 10000;
+    width: 18rem;
+    max-height: calc(100vh - 2rem);
+    overflow-y: auto;
+    padding: 0.75rem;
+    border: 1px solid rgba(148, 163, 184, 0.3);
+    border-radius: 0.5rem;
+    background: rgba(15, 23, 42, 0.92);
+    color: #e2e8f0;
+    font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+  }
+  .galaxy-debug-hud header {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    margin-bottom: 0.5rem;
+    font-weight: bold;
+  }
+  .galaxy-debug-hud button {
+    padding: 0.125rem 0.5rem;
+    border: 1px solid rgba(148, 163, 184, 0.4);
+    border-radius: 0.25rem;
+    background: transparent;
+    color: inherit;
+    font: inherit;
+    cursor: pointer;
+  }
+  .galaxy-debug-hud button:hover {
+    background: rgba(148, 163, 184, 0.15);
+  }
+  .galaxy-debug-hud pre {
+    margin: 0 0 0.75rem;
+    white-space: pre-wrap;
+  }
+  .galaxy-debug-hud label {
+    display: grid;
+    grid-template-columns: 1fr auto;
+    gap: 0 0.5rem;
+    margin-bottom: 0.375rem;
+  }
+  .galaxy-debug-hud input[type="range"] {
+    grid-column: 1 / -1;
+    width: 100%;
+  }
+  .galaxy-debug-hud input[type="text"] {
+    width: 8rem;
+    font: inherit;
+  }
+  .galaxy-debug-hud .galaxy-debug-actions {
+    display: flex;
+    gap: 0.5rem;
+    margin-top: 0.75rem;
+  }
+`;
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(4)));
+}
+
+function formatVector({ x, y, z }: { x: number; y: number; z: number }): string {
+  return `${x.toFixed(2)}, ${y.toFixed(2)}, ${z.toFixed(2)}`;
+}
+
+export class GalaxyDebugHud {
+  private galaxy: GalaxySystem;
+  private root: HTMLElement;
+  private stats: HTMLPreElement;
+  private statsInterval: number;
+  private copyTimeout: number | null = null;
+  private style: HTMLStyleElement | null = null;
+
+  constructor(galaxy: GalaxySystem) {
+    this.galaxy = galaxy;
+
+    if (!document.getElementById('galaxy-debug-hud-styles')) {
+      this.style = document.createElement('style');
+      this.style.id = 'galaxy-debug-hud-styles';
+      this.style.textContent = HUD_STYLES;
+      document.head.appendChild(this.style);
+    }
+
+    this.root = document.createElement('aside');
+    this.root.className = 'galaxy-debug-hud';
+    this.root.setAttribute('aria-label', 'Galaxy debug panel');
+
+    const header = document.createElement('header');
+    header.textContent = 'Galaxy debug';
+    header.appendChild(this.createButton('Close', () => this.destroy()));
+
+    this.stats = document.createElement('pre');
+
+    const controls = document.createElement('div');
+    this.renderControls(controls);
+
+    const actions = document.createElement('div');
+    actions.className = 'galaxy-debug-actions';
+    const copyButton = this.createButton('Copy JSON', () => this.copySettings(copyButton));
+    actions.appendChild(copyButton);
+
+    this.root.append(header, this.stats, controls, actions);
+    document.body.appendChild(this.root);
+
+    this.updateStats();
+    this.statsInterval = window.setInterval(() => this.updateStats(), STATS_INTERVAL_MS);
+  }
+
+  get isOpen(): boolean {
+    return this.root.isConnected;
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = text;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private renderControls(container: HTMLElement): void {
+    const settings = this.galaxy.getSettings();
+
+    for (const control of RANGE_CONTROLS) {
+      const label = document.createElement('label');
+      const name = document.createElement('span');
+      const output = document.createElement('output');
+      const input = document.createElement('input');
+
+      name.textContent = control.label;
+      input.type = 'range';
+      input.min = String(control.min);
+      input.max = String(control.max);
+      input.step = String(control.step);
+      input.value = String(control.read(settings));
+      output.textContent = formatNumber(control.read(settings));
+
+      input.addEventListener('input', () => {
+        const value = Number(input.value);
+        output.textContent = formatNumber(value);
+        this.galaxy.updateSettings(control.write(value, this.galaxy.getSettings()));
+      });
+
+      label.append(name, output, input);
+      container.appendChild(label);
+    }
+
+    for (const control of COLOR_CONTROLS) {
+      const label = document.createElement('label');
+      const name = document.createElement('span');
+      const input = document.createElement('input');
+
+      name.textContent = control.label;
+      input.type = 'color';
+      input.value = `#${new Color(settings[control.key]).getHexString()}`;
+      input.addEventListener('input', () => {
+        this.galaxy.updateSettings({ [control.key]: input.value });
+      });
+
+      label.append(name, input);
+      container.appendChild(label);
+    }
+
+    // Seeds are applied on change (Enter/blur) - every keystroke would be a new galaxy
+    const seedLabel = document.createElement('label');
+    const seedName = document.createElement('span');
+    const seedInput = document.createElement('input');
+    seedName.textContent = 'Seed';
+    seedInput.type = 'text';
+    seedInput.value = settings.seed === null ? '' : String(settings.seed);
+    seedInput.placeholder = 'random';
+    seedInput.addEventListener('change', () => {
+      const value = seedInput.value.trim();
+      this.galaxy.updateSettings({ seed: value === '' ? null : value });
+    });
+    seedLabel.append(seedName, seedInput);
+    container.appendChild(seedLabel);
+  }
+
+  private updateStats(): void {
+    const info = this.galaxy.getDebugInfo();
+    const { camera } = info;
+
+    this.stats.textContent = [
+      `fps         ${info.paused ? 'paused' : info.fps.toFixed(1)}`,
+      `frame time  ${info.frameTime.toFixed(2)} ms`,
+      `particles   ${info.drawnParticles} / ${info.particleCount}`,
+      `device      ${info.device}`,
+      `quality     ${info.qualityLevel ?? 'fixed'}`,
+      `pixel ratio ${info.pixelRatio.toFixed(2)}`,
+      `canvas      ${info.resolution.width}x${info.resolution.height}`,
+      `buffer      ${info.drawingBuffer.width}x${info.drawingBuffer.height}`,
+      `camera      ${formatVector(camera.position)}`,
+      `look at     ${formatVector(camera.lookAt)}`,
+      `fov/aspect  ${camera.fov.toFixed(1)} / ${camera.aspect.toFixed(2)}`,
+    ].join('\n');
+  }
+
+  private copySettings(button: HTMLButtonElement): void {
+    const json = JSON.stringify(this.galaxy.getSettings(), null, 2);
+    const showResult = (text: string) => {
+      button.textContent = text;
+      if (this.copyTimeout !== null) clearTimeout(this.copyTimeout);
+      this.copyTimeout = window.setTimeout(() => {
+        button.textContent = 'Copy JSON';
+        this.copyTimeout = null;
+      }, 1500);
+    };
+
+    // Clipboard API can be missing or blocked (insecure context, permissions) - the console always works
+    const logToConsole = () => {
+      console.info(json);
+      showResult('Logged to console');
+    };
+
+    if (!navigator.clipboard) {
+      logToConsole();
+      return;
+    }
+    navigator.clipboard.writeText(json)
+      .then(() => showResult('Copied'))
+      .catch(logToConsole);
+  }
+
+  public destroy(): void {
+    clearInterval(this.statsInterval);
+    if (this.copyTimeout !== null) clearTimeout(this.copyTimeout);
+    this.root.remove();
+    this.style?.remove();
+    this.style = null;
+  }
+}
@@ -0,0 +1,151 @@
+import { Color } from 'three';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GALAXY_SETTINGS } from './GalaxyOptions';
+import {
+  createRandom,
+  generateGalaxy,
+  opacityAt,
+  orbitalSpeedAt,
+  sizeAt,
+  type GalaxyGeneratorOptions,
+} from './GalaxyGenerator';
+
+// The production look, with enough particles for the distribution checks to be stable
+const options: GalaxyGeneratorOptions = {
+  ...DEFAULT_GALAXY_SETTINGS,
+  seed: 'drift-lab',
+  count: 20000,
+};
+const galaxy = generateGalaxy(options);
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom('drift-lab');
+    const b = createRandom('drift-lab');
+    expect(Array.from({ length: 10 }, a)).toEqual(Array.from({ length: 10 }, b));
+  });
+
+  it('returns floats in [0, 1)', () => {
+    const random = createRandom(42);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('generateGalaxy', () => {
+  it('produces the same galaxy for the same seed', () => {
+    expect(generateGalaxy({ ...options, count: 500 })).toEqual(generateGalaxy({ ...options, count: 500 }));
+  });
+
+  it('produces a different galaxy for a different seed', () => {
+    const a = generateGalaxy({ ...options, count: 50 });
+    const b = generateGalaxy({ ...options, count: 50, seed: 'another-seed' });
+    expect(a.map((particle) => particle.radius)).not.toEqual(b.map((particle) => particle.radius));
+  });
+
+  it('returns one particle per count, inside the galaxy radius', () => {
+    expect(galaxy).toHaveLength(options.count);
+    for (const particle of galaxy) {
+      expect(particle.radius).toBeGreaterThanOrEqual(0);
+      expect(particle.radius).toBeLessThan(options.radius);
+    }
+  });
+
+  it('clusters particles towards the center following densityPower', () => {
+    // radius = u^p * R, so P(radius < R * f) = f^(1/p)
+    const share = (fraction: number) =>
+      galaxy.filter((particle) => particle.radius < options.radius * fraction).length / galaxy.length;
+
+    expect(share(0.5)).toBeCloseTo(Math.pow(0.5, 1 / options.densityPower), 1);
+    expect(share(0.1)).toBeCloseTo(Math.pow(0.1, 1 / options.densityPower), 1);
+
+    // Rings of equal width hold fewer particles the further out they are
+    const rings = Array.from({ length: 5 }, (_, ring) =>
+      galaxy.filter((particle) => Math.floor((particle.radius / options.radius) * 5) === ring).length
+    );
+    for (let ring = 1; ring < rings.length; ring++) {
+      expect(rings[ring]).toBeLessThan(rings[ring - 1]);
+    }
+  });
+
+  it('spreads particles evenly over the branches, along the spiral', () => {
+    const perBranch = Array.from({ length: options.branches }, (_, branch) =>
+      galaxy.filter((particle) => particle.branch === branch).length
+    );
+    for (const count of perBranch) {
+      expect(Math.abs(count - options.count / options.branches)).toBeLessThanOrEqual(1);
+    }
+
+    for (const particle of galaxy.slice(0, 200)) {
+      const branchAngle = (particle.branch / options.branches) * Math.PI * 2;
+      expect(particle.initialAngle).toBeCloseTo(branchAngle + particle.radius * options.spin, 10);
+      expect(particle.position.x).toBeCloseTo(
+        Math.cos(particle.initialAngle) * particle.radius + particle.randomOffset.x,
+        10
+      );
+      expect(particle.position.z).toBeCloseTo(
+        Math.sin(particle.initialAngle) * particle.radius + particle.randomOffset.z,
+        10
+      );
+    }
+  });
+
+  it('keeps the disk flatter than it is wide', () => {
+    const maxOffset = (axis: 'x' | 'z') => Math.max(...galaxy.map((particle) => Math.abs(particle.randomOffset[axis])));
+    expect(maxOffset('x')).toBeLessThanOrEqual(options.randomness);
+    expect(maxOffset('z')).toBeLessThanOrEqual(options.randomness * 0.3);
+  });
+
+  it('interpolates color from insideColor to outsideColor by distance', () => {
+    const inside = new Color(options.insideColor);
+    const outside = new Color(options.outsideColor);
+
+    for (const particle of galaxy.slice(0, 200)) {
+      const expected = inside.clone().lerp(outside, particle.radius / options.radius);
+      expect(particle.color.r).toBeCloseTo(expected.r, 10);
+      expect(particle.color.g).toBeCloseTo(expected.g, 10);
+      expect(particle.color.b).toBeCloseTo(expected.b, 10);
+    }
+  });
+
+  it('derives opacity, size and orbital speed from the radius', () => {
+    for (const particle of galaxy.slice(0, 200)) {
+      const distanceFactor = particle.radius / options.radius;
+      expect(particle.opacity).toBeCloseTo(opacityAt(distanceFactor, options.baseOpacity), 10);
+      expect(particle.size).toBeCloseTo(sizeAt(distanceFactor, options.particleSize), 10);
+      expect(particle.orbitalSpeed).toBeCloseTo(orbitalSpeedAt(particle.radius), 10);
+    }
+  });
+});
+
+describe('opacityAt', () => {
+  it('runs from 40% of the base opacity at the center to 120% at the rim', () => {
+    expect(opacityAt(0, 0.5)).toBeCloseTo(0.2);
+    expect(opacityAt(0.5, 0.5)).toBeCloseTo(0.4);
+    expect(opacityAt(1, 0.5)).toBeCloseTo(0.6);
+  });
+});
+
+describe('sizeAt', () => {
+  it('halves the particle size from the center to the rim', () => {
+    expect(sizeAt(0, 0.2)).toBeCloseTo(0.2);
+    expect(sizeAt(1, 0.2)).toBeCloseTo(0.1);
+  });
+});
+
+describe('orbitalSpeedAt', () => {
+  it('follows v = 0.5 / sqrt(r + 1)', () => {
+    expect(orbitalSpeedAt(0)).toBeCloseTo(0.5);
+    expect(orbitalSpeedAt(3)).toBeCloseTo(0.25);
+    expect(orbitalSpeedAt(15)).toBeCloseTo(0.125);
+  });
+
+  it('is fastest near the center', () => {
+    for (let radius = 0; radius < 20; radius++) {
+      expect(orbitalSpeedAt(radius + 1)).toBeLessThan(orbitalSpeedAt(radius));
+    }
+  });
+});
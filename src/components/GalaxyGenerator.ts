@@ -0,0 +1,156 @@
+import { Color } from 'three';
+import type { GalaxySettings, Vector3Like } from './GalaxyOptions';
+
+/**
+ * Headless spiral galaxy generator.
+ *
+ * Pure function of (seed, options): no DOM, no WebGL, no device sniffing. GalaxySystem turns
+ * the descriptors into GPU attribute buffers, and anything else (build-time images, scripts)
+ * can reproduce exactly the same galaxy from the same seed.
+ */
+
+export type GalaxySeed = number | string;
+
+export type GalaxyGeneratorOptions = Pick<
+  GalaxySettings,
+  | 'radius'
+  | 'branches'
+  | 'spin'
+  | 'randomness'
+  | 'randomnessPower'
+  | 'densityPower'
+  | 'insideColor'
+  | 'outsideColor'
+  | 'baseOpacity'
+  | 'particleSize'
+> & {
+  count: number;
+  seed: GalaxySeed;
+};
+
+export interface GalaxyParticle {
+  // Position at t = 0 (orbit evaluated with initialAngle)
+  position: Vector3Like;
+  radius: number;
+  branch: number;
+  initialAngle: number;
+  orbitalSpeed: number;
+  randomOffset: Vector3Like;
+  digit: 0 | 1;
+  // Linear RGB in [0, 1] (Three.js working color space)
+  color: { r: number; g: number; b: number };
+  opacity: number;
+  size: number;
+}
+
+// FNV-1a - turns string seeds like "drift-lab" into a 32-bit integer
+function hashSeed(seed: GalaxySeed): number {
+  if (typeof seed === 'number') return seed >>> 0;
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG - small, fast and good enough for visual randomness.
+ * Returns a function producing floats in [0, 1), like Math.random.
+ */
+export function createRandom(seed: GalaxySeed): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ORBITAL VELOCITY CALCULATION - Based on Kepler's Laws and Galactic Dynamics
+// In real galaxies, orbital speed follows: v(r) = √(GM(r)/r)
+// For a point mass: v ∝ 1/√r (Kepler's 3rd law)
+// However, real galaxies have dark matter halos, so outer stars orbit faster than Kepler predicts
+// Simplified version: v = k/√(r+1) where k=0.5
+// The +1 prevents division by zero and ensures inner particles orbit fastest
+// This creates realistic differential rotation - inner stars complete orbits faster
+export function orbitalSpeedAt(radius: number): number {
+  return 0.5 / Math.sqrt(radius + 1);
+}
+
+// PARTICLE OPACITY - center particles must stay dim so they don't fight the hero text,
+// edges can be brighter since they don't overlap with text
+export function opacityAt(distanceFactor: number, baseOpacity: number): number {
+  const centerOpacity = baseOpacity * 0.4; // Very low opacity for center
+  const edgeOpacity = baseOpacity * 1.2; // Slightly higher for edges
+  return centerOpacity + (edgeOpacity - centerOpacity) * distanceFactor;
+}
+
+// Size shrinks towards the rim: full size at the center, half at the edge
+export function sizeAt(distanceFactor: number, particleSize: number): number {
+  return particleSize * (1 - distanceFactor * 0.5);
+}
+
+export function generateGalaxy(options: GalaxyGeneratorOptions): GalaxyParticle[] {
+  const random = createRandom(options.seed);
+  const colorInside = new Color(options.insideColor);
+  const colorOutside = new Color(options.outsideColor);
+  const mixedColor = new Color();
+  const particles: GalaxyParticle[] = [];
+
+  // The binary sign (1 or -1) ensures symmetric distribution around the spiral
+  const dispersion = (scale: number) =>
+    Math.pow(random(), options.randomnessPower) * options.randomness * scale * (random() < 0.5 ? 1 : -1);
+
+  for (let i = 0; i < options.count; i++) {
+    // DENSITY DISTRIBUTION - This is crucial for realism!
+    // In real galaxies, stellar density follows: ρ(r) ∝ r^(-α) where α ≈ 2-3
+    // Raising a uniform sample to densityPower clusters particles near the center
+    // (like real galactic bulges) with fewer in the outer regions (like galactic halos)
+    const radius = Math.pow(random(), options.densityPower) * options.radius;
+    const distanceFactor = radius / options.radius;
+
+    // SPIRAL ARM FORMULA
+    // Each particle's angle = branch angle (which arm) + spin angle (position along arm)
+    // spinAngle = radius * spin creates the logarithmic spiral pattern
+    const branch = i % options.branches;
+    const branchAngle = (branch / options.branches) * Math.PI * 2;
+    const initialAngle = branchAngle + radius * options.spin;
+
+    // Binary value: 50/50 "1" or "0" for visual variety
+    const digit = random() < 0.5 ? 1 : 0;
+
+    // RANDOMNESS DISTRIBUTION - velocity dispersion around the arm
+    // Z-axis randomness is reduced (0.3 factor) because real spiral galaxies are relatively flat
+    const randomOffset = {
+      x: dispersion(1),
+      y: dispersion(1),
+      z: dispersion(0.3),
+    };
+
+    // COLOR GRADIENT - linear interpolation from the bright center to the darker rim
+    mixedColor.copy(colorInside).lerp(colorOutside, distanceFactor);
+
+    particles.push({
+      position: {
+        x: Math.cos(initialAngle) * radius + randomOffset.x,
+        y: randomOffset.y,
+        z: Math.sin(initialAngle) * radius + randomOffset.z,
+      },
+      radius,
+      branch,
+      initialAngle,
+      orbitalSpeed: orbitalSpeedAt(radius),
+      randomOffset,
+      digit,
+      color: { r: mixedColor.r, g: mixedColor.g, b: mixedColor.b },
+      opacity: opacityAt(distanceFactor, options.baseOpacity),
+      size: sizeAt(distanceFactor, options.particleSize),
+    });
+  }
+
+  return particles;
+}
@@ -0,0 +1,316 @@
+import { createLogger } from '../utils/logger';
+
+/**
+ * Galaxy look-and-feel configuration.
+ *
+ * Every tunable value of GalaxySystem lives here instead of in private constants, so a page
+ * can pick a named preset and/or override individual values (globally or per device tier)
+ * without forking the class. Resolution order, later layers winning:
+ *
+ *   DEFAULT_GALAXY_SETTINGS → default tier overrides → preset → preset tier overrides
+ *   → color theme → page options → page tier overrides
+ */
+
+const log = createLogger('GalaxySystem');
+
+export type DeviceTier = 'mobile' | 'tablet' | 'desktop';
+
+export const GALAXY_BLENDINGS = ['additive', 'normal'] as const;
+
+export type GalaxyBlending = (typeof GALAXY_BLENDINGS)[number];
+
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface GalaxyCameraSettings {
+  position: Vector3Like;
+  lookAt: Vector3Like;
+  fov: number;
+}
+
+export interface GalaxySettings {
+  // Seed for the particle layout - the same seed always gives the same galaxy; null = random per load
+  seed: number | string | null;
+  // Desktop particle count; the effective count is particlesCount * particleScale
+  particlesCount: number;
+  // Fraction of particlesCount rendered on this tier
+  particleScale: number;
+  // Galaxy radius in 3D space units
+  radius: number;
+  // Number of spiral arms
+  branches: number;
+  // How tightly wound the arms are: spinAngle = radius * spin
+  spin: number;
+  // How far particles deviate from the perfect spiral
+  randomness: number;
+  // Higher powers keep most particles close to the arm
+  randomnessPower: number;
+  // Radius distribution exponent: higher values push particles towards the center
+  densityPower: number;
+  // Color at the galactic center and at the rim (hex number or CSS color string)
+  insideColor: number | string;
+  outsideColor: number | string;
+  // How overlapping particles combine: "additive" glows on dark backgrounds but washes out on light ones
+  blending: GalaxyBlending;
+  // Reference opacity; center particles get 40% of it, edge particles 120%
+  baseOpacity: number;
+  // Particle size in world units at the center (edges are half as large)
+  particleSize: number;
+  // Pixel size of one glyph cell in the "0"/"1" atlas texture
+  glyphResolution: number;
+  // Upper bound for renderer pixel ratio
+  maxPixelRatio: number;
+  // Initial galaxy orientation in radians
+  tilt: number;
+  yaw: number;
+  // Orbital time advanced per frame and whole-galaxy rotation per frame
+  timeStep: number;
+  rotationSpeed: number;
+  // World-space size of the highlighted member stars
+  memberStarSize: number;
+  // Maximum camera shift (world units) from pointer movement or device tilt; 0 disables it
+  parallaxStrength: number;
+  // Let QualityGovernor trade particles/pixel ratio/antialiasing for frame rate
+  adaptiveQuality: boolean;
+  targetFps: number;
+  camera: GalaxyCameraSettings;
+}
+
+export type GalaxySettingsOverrides = Partial<Omit<GalaxySettings, 'camera'>> & {
+  camera?: Partial<GalaxyCameraSettings>;
+};
+
+export const GALAXY_PRESET_NAMES = ['default', 'calm', 'dense', 'barred-spiral'] as const;
+
+export type GalaxyPresetName = (typeof GALAXY_PRESET_NAMES)[number];
+
+export interface GalaxyPreset extends GalaxySettingsOverrides {
+  tiers?: Partial<Record<DeviceTier, GalaxySettingsOverrides>>;
+}
+
+export interface GalaxyOptions extends GalaxyPreset {
+  preset?: GalaxyPresetName;
+  // Palette of the page's color theme, usually from readGalaxyThemeFromStyles()
+  theme?: GalaxySettingsOverrides;
+}
+
+// Baseline look - desktop values, the tiers below adjust them for smaller screens
+// Based on real spiral galaxy observations: most galaxies have 2-4 spiral arms
+export const DEFAULT_GALAXY_SETTINGS: GalaxySettings = {
+  seed: 'drift-lab', // Pinned so every visitor sees the same, hand-picked galaxy
+  particlesCount: 8000, // Single GPU draw call, so this can go far higher - real galaxies have billions of stars
+  particleScale: 1,
+  radius: 20, // Galaxy radius in 3D space units
+  branches: 4, // 4 arms create a more dramatic, symmetric look
+  // Higher spin values create tighter spirals (like barred spiral galaxies)
+  spin: 1.5,
+  randomness: 0.4, // Controls how much particles deviate from perfect spiral - adds realism
+  // Power of 3 means most particles stay close to spiral, few drift far
+  // This mimics real galaxies where stars cluster along arms but have some dispersion
+  randomnessPower: 3,
+  densityPower: 2.5,
+  // Color gradient: In real galaxies, center is hotter (blue-white) and outer regions cooler (red)
+  // Blue tints are used throughout for aesthetic, but the gradient still represents distance
+  insideColor: 0x3b82f6, // Bright blue for galactic center (hotter, denser)
+  outsideColor: 0x1e40af, // Darker blue for outer regions (cooler, sparser)
+  blending: 'additive', // Overlapping particles add up like starlight (see GalaxySystem.createGalaxy)
+  baseOpacity: 0.5,
+  particleSize: 0.15,
+  glyphResolution: 128,
+  maxPixelRatio: 2,
+  tilt: -Math.PI * 0.1,
+  yaw: Math.PI * 0.1,
+  timeStep: 0.005,
+  rotationSpeed: 0.00003,
+  memberStarSize: 0.7,
+  parallaxStrength: 0.8,
+  adaptiveQuality: true,
+  targetFps: 50,
+  camera: {
+    position: { x: 0, y: 8, z: 15 },
+    lookAt: { x: 0, y: 0, z: 0 },
+    fov: 75,
+  },
+};
+
+const DEFAULT_TIER_OVERRIDES: Record<DeviceTier, GalaxySettingsOverrides> = {
+  mobile: {
+    particleScale: 0.3,
+    // Power of 3 reduces center density and prevents text interference
+    densityPower: 3,
+    baseOpacity: 0.4,
+    particleSize: 0.12,
+    glyphResolution: 64,
+    maxPixelRatio: 1.5,
+    targetFps: 40,
+    memberStarSize: 0.9,
+    parallaxStrength: 0.5,
+    tilt: -Math.PI * 0.08,
+    camera: {
+      // 45-degree angle from top (y = z), kept close to the galaxy
+      position: { x: 0, y: 7, z: 7 },
+      // Offset galaxy center slightly to the right to avoid text overlap
+      lookAt: { x: 1.5, y: 2, z: 0 },
+      fov: 70,
+    },
+  },
+  tablet: {
+    particleScale: 0.6,
+    particleSize: 0.14,
+    glyphResolution: 96,
+    camera: {
+      position: { x: 0, y: 7, z: 14 },
+      fov: 72,
+    },
+  },
+  desktop: {},
+};
+
+export const GALAXY_PRESETS: Record<GalaxyPresetName, GalaxyPreset> = {
+  default: {},
+  // Fewer, dimmer particles drifting slowly - for text-heavy pages
+  calm: {
+    particlesCount: 5000,
+    baseOpacity: 0.35,
+    timeStep: 0.002,
+    rotationSpeed: 0.00001,
+  },
+  // Many small particles - relies on the single draw call to stay smooth
+  dense: {
+    particlesCount: 40000,
+    particleSize: 0.09,
+    baseOpacity: 0.3,
+    randomness: 0.55,
+    tiers: {
+      mobile: { particleScale: 0.25, particleSize: 0.08 },
+    },
+  },
+  // Two tightly wound arms with a compact, bright core
+  'barred-spiral': {
+    branches: 2,
+    spin: 2.2,
+    randomness: 0.3,
+    densityPower: 2,
+    insideColor: 0x60a5fa,
+    outsideColor: 0x6d28d9,
+  },
+};
+
+export function isGalaxyPresetName(value: unknown): value is GalaxyPresetName {
+  return typeof value === 'string' && (GALAXY_PRESET_NAMES as readonly string[]).includes(value);
+}
+
+function applyOverrides(target: GalaxySettings, overrides: GalaxySettingsOverrides | undefined): GalaxySettings {
+  if (!overrides) return target;
+
+  const { camera, ...rest } = overrides;
+  const definedValues = Object.fromEntries(
+    Object.entries(rest).filter(([, value]) => value !== undefined)
+  ) as Partial<GalaxySettings>;
+
+  return {
+    ...target,
+    ...definedValues,
+    camera: {
+      position: { ...target.camera.position, ...camera?.position },
+      lookAt: { ...target.camera.lookAt, ...camera?.lookAt },
+      fov: camera?.fov ?? target.camera.fov,
+    },
+  };
+}
+
+/**
+ * Combine two override layers, the second one winning (camera fields are merged one level deep).
+ */
+export function mergeGalaxyOverrides(
+  base: GalaxySettingsOverrides = {},
+  overrides: GalaxySettingsOverrides
+): GalaxySettingsOverrides {
+  return {
+    ...base,
+    ...overrides,
+    camera: { ...base.camera, ...overrides.camera },
+  };
+}
+
+function withoutTiers({ tiers: _tiers, ...settings }: GalaxyPreset): GalaxySettingsOverrides {
+  return settings;
+}
+
+/**
+ * Flatten defaults, preset and page options into the concrete settings for one device tier.
+ */
+export function resolveGalaxySettings(options: GalaxyOptions = {}, tier: DeviceTier): GalaxySettings {
+  const { preset: presetName = 'default', theme, ...pageOptions } = options;
+  const preset = GALAXY_PRESETS[presetName] ?? GALAXY_PRESETS.default;
+
+  let settings = applyOverrides(DEFAULT_GALAXY_SETTINGS, DEFAULT_TIER_OVERRIDES[tier]);
+  settings = applyOverrides(settings, withoutTiers(preset));
+  settings = applyOverrides(settings, preset.tiers?.[tier]);
+  settings = applyOverrides(settings, theme);
+  settings = applyOverrides(settings, withoutTiers(pageOptions));
+  settings = applyOverrides(settings, pageOptions.tiers?.[tier]);
+  return settings;
+}
+
+/**
+ * Read options from the canvas: data-galaxy-preset picks a preset and data-galaxy-options
+ * holds a JSON GalaxyOptions object. Invalid values are reported and ignored.
+ */
+export function readGalaxyOptionsFromDataset(element: HTMLElement): GalaxyOptions {
+  const options: GalaxyOptions = {};
+  const { galaxyPreset, galaxyOptions } = element.dataset;
+
+  if (galaxyOptions) {
+    try {
+      Object.assign(options, JSON.parse(galaxyOptions) as GalaxyOptions);
+    } catch (error) {
+      log.warn('Ignoring invalid data-galaxy-options JSON:', error);
+    }
+  }
+
+  if (galaxyPreset) {
+    if (isGalaxyPresetName(galaxyPreset)) {
+      options.preset = galaxyPreset;
+    } else {
+      log.warn(`Unknown galaxy preset "${galaxyPreset}", falling back to "default"`);
+    }
+  }
+
+  if (options.preset !== undefined && !isGalaxyPresetName(options.preset)) {
+    delete options.preset;
+  }
+
+  return options;
+}
+
+function isGalaxyBlending(value: unknown): value is GalaxyBlending {
+  return typeof value === 'string' && (GALAXY_BLENDINGS as readonly string[]).includes(value);
+}
+
+/**
+ * Read the active color theme's galaxy palette from CSS custom properties (set per theme in
+ * global.css): --galaxy-inside-color, --galaxy-outside-color and --galaxy-blending.
+ * Missing or invalid values are left out, so the settings keep their defaults.
+ */
+export function readGalaxyThemeFromStyles(element: Element): GalaxySettingsOverrides {
+  const styles = getComputedStyle(element);
+  const read = (property: string) => styles.getPropertyValue(property).trim();
+  const theme: GalaxySettingsOverrides = {};
+
+  const insideColor = read('--galaxy-inside-color');
+  const outsideColor = read('--galaxy-outside-color');
+  const blending = read('--galaxy-blending');
+  if (insideColor) theme.insideColor = insideColor;
+  if (outsideColor) theme.outsideColor = outsideColor;
+  if (isGalaxyBlending(blending)) {
+    theme.blending = blending;
+  } else if (blending) {
+    log.warn(`Unknown --galaxy-blending "${blending}", keeping "${DEFAULT_GALAXY_SETTINGS.blending}"`);
+  }
+
+  return theme;
+}
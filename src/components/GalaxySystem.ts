@@ -1,13 +1,116 @@
 import * as THREE from 'three';
+import {
+  mergeGalaxyOverrides,
+  resolveGalaxySettings,
+  type DeviceTier,
+  type GalaxyBlending,
+  type GalaxyOptions,
+  type GalaxySettings,
+  type GalaxySettingsOverrides,
+  type Vector3Like,
+} from './GalaxyOptions';
+import { QualityGovernor, QUALITY_LEVELS, type QualityLevel } from './QualityGovernor';
+import { MemberStars, type GalaxyMember } from './MemberStars';
+import { generateGalaxy } from './GalaxyGenerator';
+import { createLogger } from '../utils/logger';
 
-interface ParticleData {
-  sprite: THREE.Sprite;
-  initialAngle: number;
-  radius: number;
-  orbitalSpeed: number;
-  branchAngle: number;
-  randomOffset: { x: number; y: number; z: number };
-}
+export type { GalaxyMember } from './MemberStars';
+export {
+  GALAXY_PRESETS,
+  readGalaxyOptionsFromDataset,
+  readGalaxyThemeFromStyles,
+  type DeviceTier,
+  type GalaxyBlending,
+  type GalaxyOptions,
+  type GalaxyPresetName,
+  type GalaxySettings,
+  type GalaxySettingsOverrides,
+} from './GalaxyOptions';
+
+const log = createLogger('GalaxySystem');
+
+// Settings that only take effect by regenerating the particles (everything else is applied live)
+const REBUILD_SETTING_KEYS = [
+  'seed',
+  'particlesCount',
+  'particleScale',
+  'radius',
+  'branches',
+  'spin',
+  'randomness',
+  'randomnessPower',
+  'densityPower',
+  'insideColor',
+  'outsideColor',
+  'baseOpacity',
+  'particleSize',
+  'glyphResolution',
+  'memberStarSize',
+] as const satisfies readonly (keyof GalaxySettings)[];
+
+const THREE_BLENDING: Record<GalaxyBlending, THREE.Blending> = {
+  additive: THREE.AdditiveBlending,
+  normal: THREE.NormalBlending,
+};
+
+// ORBITAL MOTION SHADER
+// Every particle is a single vertex of one THREE.Points draw call. The orbit is evaluated
+// on the GPU from per-particle attributes, so the CPU only advances uTime each frame.
+// Formula: θ(t) = θ₀ + ω*t, then x = r*cos(θ), z = r*sin(θ)
+const GALAXY_VERTEX_SHADER = /* glsl */ `
+  uniform float uTime;
+  uniform float uSizeScale;
+
+  attribute float aRadius;
+  attribute float aInitialAngle;
+  attribute float aOrbitalSpeed;
+  attribute vec3 aRandomOffset;
+  attribute float aDigit;
+  attribute vec3 aColor;
+  attribute float aOpacity;
+  attribute float aSize;
+
+  varying vec3 vColor;
+  varying float vOpacity;
+  varying float vDigit;
+
+  void main() {
+    float angle = aInitialAngle + aOrbitalSpeed * uTime;
+    vec3 orbitPosition = vec3(
+      cos(angle) * aRadius + aRandomOffset.x,
+      aRandomOffset.y,
+      sin(angle) * aRadius + aRandomOffset.z
+    );
+
+    vec4 mvPosition = modelViewMatrix * vec4(orbitPosition, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    // Perspective size attenuation - matches a THREE.Sprite of aSize world units
+    gl_PointSize = aSize * uSizeScale / -mvPosition.z;
+
+    vColor = aColor;
+    vOpacity = aOpacity;
+    vDigit = aDigit;
+  }
+`;
+
+// Glyph atlas lookup: "0" lives in the left half of the texture, "1" in the right half
+const GALAXY_FRAGMENT_SHADER = /* glsl */ `
+  uniform sampler2D uMap;
+
+  varying vec3 vColor;
+  varying float vOpacity;
+  varying float vDigit;
+
+  void main() {
+    vec2 uv = vec2((gl_PointCoord.x + vDigit) * 0.5, 1.0 - gl_PointCoord.y);
+    vec4 glyph = texture2D(uMap, uv);
+    gl_FragColor = vec4(vColor, vOpacity) * glyph;
+
+    // Colors are linear (Three.js working space) - convert like built-in materials do
+    #include <colorspace_fragment>
+  }
+`;
 
 /**
  * Procedural Galaxy System - Realistic Spiral Galaxy Simulation
@@ -35,12 +138,73 @@ interface ParticleData {
  * The simulation balances realism with performance, using optimized particle counts
  * and rendering techniques to maintain smooth animation across all devices.
  */
+// Dispatched (bubbling) on the canvas when WebGL rendering cannot continue
+export const GALAXY_FALLBACK_EVENT = 'galaxy:fallback';
+
+export interface GalaxyFallbackDetail {
+  reason: 'context-lost' | 'renderer-error';
+}
+
+// Dispatched (bubbling) on the canvas whenever the paused state changes
+export const GALAXY_MOTION_EVENT = 'galaxy:motionchange';
+
+// Dispatched (bubbling) on the canvas when the pointer enters/leaves a member star
+export const GALAXY_MEMBER_HOVER_EVENT = 'galaxy:memberhover';
+// Dispatched (bubbling) on the canvas when a member star is clicked (or tapped twice)
+export const GALAXY_MEMBER_SELECT_EVENT = 'galaxy:memberselect';
+
+export interface GalaxyMemberHoverDetail {
+  member: GalaxyMember | null;
+  clientX: number;
+  clientY: number;
+}
+
+export interface GalaxyMemberSelectDetail {
+  member: GalaxyMember;
+}
+
+export type GalaxyMotionPreference = 'auto' | 'paused' | 'playing';
+
+export interface GalaxyMotionDetail {
+  paused: boolean;
+  preference: GalaxyMotionPreference;
+  prefersReducedMotion: boolean;
+}
+
+// Live renderer state for the debug HUD
+export interface GalaxyDebugInfo {
+  fps: number;
+  frameTime: number;
+  particleCount: number;
+  drawnParticles: number;
+  device: DeviceTier;
+  pixelRatio: number;
+  resolution: { width: number; height: number };
+  drawingBuffer: { width: number; height: number };
+  qualityLevel: number | null;
+  paused: boolean;
+  camera: {
+    position: Vector3Like;
+    lookAt: Vector3Like;
+    fov: number;
+    aspect: number;
+  };
+}
+
+// Safari's DeviceOrientationEvent.requestPermission(), which the DOM typings do not declare
+function hasOrientationPermission(api: object): api is { requestPermission: () => Promise<PermissionState> } {
+  return 'requestPermission' in api && typeof api.requestPermission === 'function';
+}
+
 export class GalaxySystem {
+  // How long to wait for webglcontextrestored before giving up
+  private static readonly CONTEXT_RESTORE_TIMEOUT = 3000;
+
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
   private galaxyGroup: THREE.Group | null = null;
-  private particles: ParticleData[] = [];
+  private galaxyPoints: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial> | null = null;
   private animationId: number | null = null;
   private isDestroyed = false;
   private time = 0;
@@ -52,31 +216,53 @@ export class GalaxySystem {
   private canvas: HTMLCanvasElement;
   private renderLogCounter = 0;
   private lastRenderLogTime = 0;
+  // Smoothed frame time (ms) for the debug HUD; null until two frames were rendered in a row
+  private lastFrameTime: number | null = null;
+  private averageFrameTime = 0;
   private lastSize: { width: number; height: number } | null = null;
-  private lastDevice: 'mobile' | 'tablet' | 'desktop' | null = null;
+  private lastDevice: DeviceTier | null = null;
   private updateSizePending = false;
   private isPageVisible = true;
 
-  // Galaxy parameters - optimized for performance
-  // Based on real spiral galaxy observations: most galaxies have 2-4 spiral arms
-  private readonly PARTICLES_COUNT = 8000; // Reduced for sprite performance - real galaxies have billions of stars
-  private readonly RADIUS = 20; // Galaxy radius in 3D space units
-  private readonly BRANCHES = 4; // Number of spiral arms - I chose 4 because it creates a more dramatic, symmetric look
-  // SPIN factor controls how tightly wound the spiral arms are
-  // Higher values create tighter spirals (like barred spiral galaxies)
-  // Formula: spinAngle = radius * SPIN - this creates the logarithmic spiral pattern
-  private readonly SPIN = 1.5; // I increased this from 1.0 to create more visible, dramatic spiral arms
-  private readonly RANDOMNESS = 0.4; // Controls how much particles deviate from perfect spiral - adds realism
-  // RANDOMNESS_POWER: Using power of 3 means most particles stay close to spiral, few drift far
-  // This mimics real galaxies where stars cluster along arms but have some dispersion
-  private readonly RANDOMNESS_POWER = 3;
-  // Color gradient: In real galaxies, center is hotter (blue-white) and outer regions cooler (red)
-  // I'm using blue tints throughout for aesthetic, but the gradient still represents distance
-  private readonly INSIDE_COLOR = 0x3b82f6; // Bright blue for galactic center (hotter, denser)
-  private readonly OUTSIDE_COLOR = 0x1e40af; // Darker blue for outer regions (cooler, sparser)
+  // Motion control: the loop only runs while all of these allow it
+  private isInView = true;
+  private prefersReducedMotion = false;
+  private motionPreference: GalaxyMotionPreference = 'auto';
+  private intersectionObserver: IntersectionObserver | null = null;
+  private reducedMotionQuery: MediaQueryList | null = null;
+  private reducedMotionHandler: ((event: MediaQueryListEvent) => void) | null = null;
+  private lastNotifiedPaused: boolean | null = null;
+
+  // Member stars, pointer picking and camera parallax
+  private members: readonly GalaxyMember[];
+  private memberStars: MemberStars | null = null;
+  private raycaster = new THREE.Raycaster();
+  private pointer: { ndc: THREE.Vector2; clientX: number; clientY: number } | null = null;
+  private hoveredMemberIndex: number | null = null;
+  private parallaxTarget = new THREE.Vector2();
+  private parallaxCurrent = new THREE.Vector2();
+  private interactionTarget: HTMLElement | null = null;
+  private pointerMoveHandler: ((event: PointerEvent) => void) | null = null;
+  private pointerLeaveHandler: (() => void) | null = null;
+  private clickHandler: ((event: MouseEvent) => void) | null = null;
+  private deviceOrientationHandler: ((event: DeviceOrientationEvent) => void) | null = null;
+
+  // Runtime quality adaptation and WebGL context handling
+  private governor: QualityGovernor | null = null;
+  private qualityLevel: QualityLevel = QUALITY_LEVELS[QUALITY_LEVELS.length - 1];
+  private isContextLost = false;
+  private contextLostHandler: ((event: Event) => void) | null = null;
+  private contextRestoredHandler: (() => void) | null = null;
+  private contextRestoreTimeout: number | null = null;
+
+  // Galaxy parameters come from GalaxyOptions (defaults → preset → page overrides)
+  // See GalaxyOptions.ts for what each value controls and the per-device tier tables
+  private options: GalaxyOptions;
+  // Snapshot for the per-frame loop, refreshed whenever the size/device is re-evaluated
+  private activeSettings: GalaxySettings;
   
   // Device detection and optimization
-  private get deviceType(): 'mobile' | 'tablet' | 'desktop' {
+  private get deviceType(): DeviceTier {
     if (typeof window === 'undefined') return 'desktop';
     
     const width = window.innerWidth;
@@ -90,63 +276,36 @@ export class GalaxySystem {
     return 'desktop';
   }
 
+  // Settings resolved for the current device tier
+  private get settings(): GalaxySettings {
+    return resolveGalaxySettings(this.options, this.deviceType);
+  }
+
   // Performance optimization: reduce particle count based on device
   private get optimizedParticleCount(): number {
-    const device = this.deviceType;
-    switch (device) {
-      case 'mobile':
-        return Math.floor(this.PARTICLES_COUNT * 0.3); // 30% for mobile
-      case 'tablet':
-        return Math.floor(this.PARTICLES_COUNT * 0.6); // 60% for tablet
-      default:
-        return this.PARTICLES_COUNT; // 100% for desktop
-    }
+    const { particlesCount, particleScale } = this.settings;
+    return Math.floor(particlesCount * particleScale);
   }
 
   // Get optimal camera position based on device
-  private getCameraPosition(): { x: number; y: number; z: number } {
-    const device = this.deviceType;
-    
-    switch (device) {
-      case 'mobile':
-        // 45-degree angle from top: Y = Z creates 45° viewing angle, but keep distance closer
-        // Original distance was ~11.7, so for 45° with similar distance: y=z≈8
-        // Reducing to y=z=7 keeps it closer while maintaining the 45-degree angle
-        return { x: 0, y: 7, z: 7 };
-      case 'tablet':
-        return { x: 0, y: 7, z: 14 };
-      default:
-        return { x: 0, y: 8, z: 15 };
-    }
+  private getCameraPosition(): Vector3Like {
+    return { ...this.settings.camera.position };
   }
 
   // Get optimal camera lookAt point based on device
-  private getCameraLookAt(): { x: number; y: number; z: number } {
-    const device = this.deviceType;
-    
-    switch (device) {
-      case 'mobile':
-        // Offset galaxy center slightly to the right and down to avoid text overlap
-        // Smaller offset to keep it subtle, negative Y moves galaxy down
-        return { x: 1.5, y: 2, z: 0 };
-      case 'tablet':
-        return { x: 0, y: 0, z: 0 };
-      default:
-        return { x: 0, y: 0, z: 0 };
-    }
+  private getCameraLookAt(): Vector3Like {
+    return { ...this.settings.camera.lookAt };
   }
 
   // Get optimal camera FOV based on device
   private getCameraFOV(): number {
-    const device = this.deviceType;
-    switch (device) {
-      case 'mobile':
-        return 70; // Wider FOV for mobile to see more
-      case 'tablet':
-        return 72;
-      default:
-        return 75;
-    }
+    return this.settings.camera.fov;
+  }
+
+  // Cap pixel ratio per device to keep fill rate manageable, scaled down further by the governor
+  private getPixelRatio(): number {
+    const cap = Math.min(window.devicePixelRatio, this.settings.maxPixelRatio);
+    return Math.max(0.5, cap * this.qualityLevel.pixelRatioScale);
   }
 
   // Get accurate canvas size from multiple sources with fallback priority
@@ -191,45 +350,55 @@ export class GalaxySystem {
     };
   }
 
-  // Create texture for "1" or "0" - optimized size based on device
-  private createTextTexture(text: string): THREE.CanvasTexture {
-    const device = this.deviceType;
-    const size = device === 'mobile' ? 64 : device === 'tablet' ? 96 : 128;
-    const fontSize = device === 'mobile' ? 48 : device === 'tablet' ? 72 : 96;
+  // Create glyph atlas with "0" and "1" side by side - optimized size based on device
+  private createGlyphAtlas(): THREE.CanvasTexture {
+    const size = this.settings.glyphResolution;
+    const fontSize = Math.round(size * 0.75);
     
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('2d')!;
-    canvas.width = size;
+    canvas.width = size * 2;
     canvas.height = size;
 
-    // White text so we can tint it with sprite colors
+    // White text so we can tint it with per-particle colors in the shader
     context.fillStyle = 'rgba(255, 255, 255, 0.95)';
     context.font = `bold ${fontSize}px monospace`;
     context.textAlign = 'center';
     context.textBaseline = 'middle';
-    context.fillText(text, size / 2, size / 2);
+    context.fillText('0', size / 2, size / 2);
+    context.fillText('1', size * 1.5, size / 2);
 
     const texture = new THREE.CanvasTexture(canvas);
     texture.needsUpdate = true;
     return texture;
   }
 
-  constructor(canvas: HTMLCanvasElement) {
-    // Store canvas reference
+  // Pixels per world unit at distance 1 - lets gl_PointSize follow perspective like a world-space sprite
+  // Must be refreshed whenever the drawing buffer height or the camera FOV changes
+  private updatePointScale(): void {
+    if (!this.galaxyPoints) return;
+
+    const bufferSize = this.renderer.getDrawingBufferSize(new THREE.Vector2());
+    const fovRadians = THREE.MathUtils.degToRad(this.camera.fov);
+    const sizeScale = bufferSize.y / (2 * Math.tan(fovRadians / 2));
+    this.galaxyPoints.material.uniforms.uSizeScale.value = sizeScale;
+    this.memberStars?.setSizeScale(sizeScale);
+  }
+
+  constructor(canvas: HTMLCanvasElement, options: GalaxyOptions = {}, members: readonly GalaxyMember[] = []) {
+    // Store canvas reference, look-and-feel options and the members shown as stars
     this.canvas = canvas;
+    this.options = options;
+    this.members = members;
+    this.activeSettings = this.settings;
     
     // Setup scene
     this.scene = new THREE.Scene();
 
     // Setup renderer first (needed for device detection)
-    // Ensure renderer stays behind text content - depth test disabled for proper layering
-    this.renderer = new THREE.WebGLRenderer({
-      canvas,
-      antialias: true,
-      alpha: true,
-      powerPreference: 'high-performance',
-      depth: false, // Disable depth buffer to ensure it stays behind text
-    });
+    // Throws when WebGL is unavailable (blocklisted GPU, disabled hardware acceleration) -
+    // callers are expected to catch and show a static fallback
+    this.renderer = this.createRenderer(canvas, this.qualityLevel.antialias);
     
     // Get accurate initial size (reused for camera setup)
     const initialSize = this.getCanvasSize();
@@ -237,13 +406,8 @@ export class GalaxySystem {
     
     // Optimize pixel ratio based on device
     const device = this.deviceType;
-    const pixelRatio = device === 'mobile' 
-      ? Math.min(window.devicePixelRatio, 1.5) 
-      : device === 'tablet'
-      ? Math.min(window.devicePixelRatio, 2)
-      : Math.min(window.devicePixelRatio, 2);
+    const pixelRatio = this.getPixelRatio();
     this.renderer.setPixelRatio(pixelRatio);
-    this.renderer.setClearColor(0x000000, 0);
 
     // Setup camera - responsive to device (reuse initialSize)
     const aspect = initialSize.width / initialSize.height;
@@ -257,9 +421,10 @@ export class GalaxySystem {
     this.camera.lookAt(lookAt.x, lookAt.y, lookAt.z);
     
     // Log initial setup
-    console.log('[GalaxySystem] Initialized:', {
+    log.debug('Initialized:', {
       resolution: `${initialSize.width}x${initialSize.height}`,
       device,
+      preset: this.options.preset ?? 'default',
       pixelRatio,
       camera: {
         position: camPos,
@@ -278,154 +443,482 @@ export class GalaxySystem {
     // Handle visibility changes for performance optimization
     this.handleVisibility();
 
-    // Start animation
-    this.animate();
+    // Respect prefers-reduced-motion and stop while the hero is scrolled out of view
+    this.handleReducedMotion();
+    this.handleViewportIntersection();
+
+    // Member star hover/click and pointer/tilt parallax
+    this.handlePointerInteraction();
+
+    // Adapt particle count, pixel ratio and antialiasing to the measured frame rate
+    if (this.activeSettings.adaptiveQuality) {
+      this.governor = new QualityGovernor({
+        targetFps: this.activeSettings.targetFps,
+        onChange: (level, index, averageFps) => this.applyQualityLevel(level, index, averageFps),
+      });
+    }
+
+    // Start animation (or show a still frame when motion is not allowed)
+    this.updateAnimationState();
+  }
+
+  // Whether the user (or their reduced-motion setting) currently allows animation
+  private get isMotionAllowed(): boolean {
+    if (this.motionPreference === 'auto') return !this.prefersReducedMotion;
+    return this.motionPreference === 'playing';
+  }
+
+  private get shouldAnimate(): boolean {
+    return !this.isDestroyed
+      && !this.isContextLost
+      && this.isPageVisible
+      && this.isInView
+      && this.isMotionAllowed;
+  }
+
+  // Single place that starts or stops the render loop based on the current state
+  private updateAnimationState(): void {
+    if (this.isDestroyed) return;
+
+    if (this.shouldAnimate) {
+      if (this.animationId === null) {
+        // Frame times across a pause are meaningless to the governor
+        this.governor?.reset();
+        this.lastFrameTime = null;
+        this.animate();
+      }
+    } else {
+      if (this.animationId !== null) {
+        cancelAnimationFrame(this.animationId);
+        this.animationId = null;
+      }
+      this.averageFrameTime = 0;
+      // Paused by preference: keep a still galaxy on screen instead of a blank canvas
+      if (!this.isMotionAllowed && !this.isContextLost) {
+        this.renderStaticFrame();
+      }
+    }
+
+    this.notifyMotionChange();
+  }
+
+  // Tell the page when the paused state flips so controls can stay in sync
+  private notifyMotionChange(): void {
+    const paused = this.isPaused;
+    if (paused === this.lastNotifiedPaused) return;
+    this.lastNotifiedPaused = paused;
+
+    this.canvas.dispatchEvent(new CustomEvent<GalaxyMotionDetail>(GALAXY_MOTION_EVENT, {
+      bubbles: true,
+      detail: {
+        paused,
+        preference: this.motionPreference,
+        prefersReducedMotion: this.prefersReducedMotion,
+      },
+    }));
+  }
+
+  /**
+   * True when motion is stopped by the user or by prefers-reduced-motion
+   * (not when the loop is only suspended because the tab or hero is hidden).
+   */
+  public get isPaused(): boolean {
+    return !this.isMotionAllowed;
+  }
+
+  /**
+   * Stop the animation and keep the current frame on screen. Overrides reduced-motion "auto".
+   */
+  public pause(): void {
+    this.motionPreference = 'paused';
+    this.updateAnimationState();
+  }
+
+  /**
+   * Resume the animation, even when the visitor prefers reduced motion (explicit choice wins).
+   */
+  public resume(): void {
+    this.motionPreference = 'playing';
+    this.updateAnimationState();
+  }
+
+  /**
+   * Go back to following prefers-reduced-motion.
+   */
+  public resetMotionPreference(): void {
+    this.motionPreference = 'auto';
+    this.updateAnimationState();
+  }
+
+  /**
+   * Draw one frame at the current simulation time without advancing it.
+   */
+  public renderStaticFrame(): void {
+    if (this.isDestroyed || this.isContextLost || !this.galaxyGroup) return;
+
+    if (this.galaxyPoints) {
+      this.galaxyPoints.material.uniforms.uTime.value = this.time;
+    }
+    this.memberStars?.update(this.time);
+    this.renderer.render(this.scene, this.camera);
+  }
+
+  /**
+   * Snapshot of the renderer state for the debug HUD.
+   */
+  public getDebugInfo(): GalaxyDebugInfo {
+    const drawingBuffer = this.renderer.getDrawingBufferSize(new THREE.Vector2());
+    const geometry = this.galaxyPoints?.geometry;
+    const particleCount = geometry?.getAttribute('aRadius').count ?? 0;
+
+    return {
+      fps: this.averageFrameTime > 0 ? 1000 / this.averageFrameTime : 0,
+      frameTime: this.averageFrameTime,
+      particleCount,
+      drawnParticles: geometry ? Math.min(geometry.drawRange.count, particleCount) : 0,
+      device: this.deviceType,
+      pixelRatio: this.renderer.getPixelRatio(),
+      resolution: this.lastSize ?? this.getCanvasSize(),
+      drawingBuffer: { width: drawingBuffer.x, height: drawingBuffer.y },
+      qualityLevel: this.governor?.index ?? null,
+      paused: this.isPaused,
+      camera: {
+        position: { x: this.camera.position.x, y: this.camera.position.y, z: this.camera.position.z },
+        lookAt: { ...this.activeSettings.camera.lookAt },
+        fov: this.camera.fov,
+        aspect: this.camera.aspect,
+      },
+    };
+  }
+
+  /**
+   * Settings currently in effect (resolved for the current device tier).
+   */
+  public getSettings(): GalaxySettings {
+    return structuredClone(this.activeSettings);
+  }
+
+  /**
+   * Override settings for the current device tier at runtime. Values that shape the particles
+   * regenerate the galaxy; camera, motion and pixel ratio values are applied in place.
+   */
+  public updateSettings(overrides: GalaxySettingsOverrides): void {
+    if (this.isDestroyed) return;
+
+    const tier = this.deviceType;
+    this.options = {
+      ...this.options,
+      tiers: {
+        ...this.options.tiers,
+        [tier]: mergeGalaxyOverrides(this.options.tiers?.[tier], overrides),
+      },
+    };
+
+    this.applySettings();
+  }
+
+  /**
+   * Switch to the palette of another color theme (see readGalaxyThemeFromStyles). Member accent
+   * colors usually change with the theme as well, so the re-resolved members can be passed along.
+   */
+  public setTheme(theme: GalaxySettingsOverrides, members?: readonly GalaxyMember[]): void {
+    if (this.isDestroyed) return;
+
+    this.options = { ...this.options, theme };
+    if (members) this.members = members;
+    this.applySettings(members !== undefined);
+  }
+
+  // Re-resolve the settings after an options change and apply the differences
+  private applySettings(rebuild = false): void {
+    const previous = this.activeSettings;
+    const next = this.settings;
+    this.activeSettings = next;
+
+    if (rebuild || REBUILD_SETTING_KEYS.some((key) => previous[key] !== next[key])) {
+      // Keep the accumulated rotation so a rebuild (e.g. a theme switch) does not jump
+      const rotationY = this.galaxyGroup?.rotation.y;
+      this.disposeGalaxy();
+      this.hoveredMemberIndex = null;
+      this.createGalaxy();
+      if (rotationY !== undefined && next.yaw === previous.yaw) this.galaxyGroup!.rotation.y = rotationY;
+    } else if (this.galaxyGroup) {
+      this.galaxyGroup.rotation.x = next.tilt;
+      if (next.yaw !== previous.yaw) this.galaxyGroup.rotation.y = next.yaw;
+      if (next.blending !== previous.blending) this.applyBlending(next.blending);
+    }
+
+    const { position, lookAt, fov } = next.camera;
+    this.camera.position.set(position.x, position.y, position.z);
+    this.camera.lookAt(lookAt.x, lookAt.y, lookAt.z);
+    this.camera.fov = fov;
+    this.camera.updateProjectionMatrix();
+
+    if (next.maxPixelRatio !== previous.maxPixelRatio) {
+      this.renderer.setPixelRatio(this.getPixelRatio());
+    }
+    this.updatePointScale();
+
+    if (this.animationId === null) this.renderStaticFrame();
+  }
+
+  private applyBlending(blending: GalaxyBlending): void {
+    const materials = [this.galaxyPoints?.material, this.memberStars?.points.material];
+    materials.forEach((material) => {
+      if (!material) return;
+      material.blending = THREE_BLENDING[blending];
+      material.needsUpdate = true;
+    });
+  }
+
+  // Exponential moving average of the time between consecutive rendered frames
+  private recordFrameTime(frameTime: number): void {
+    if (this.lastFrameTime !== null) {
+      const delta = frameTime - this.lastFrameTime;
+      this.averageFrameTime = this.averageFrameTime === 0
+        ? delta
+        : this.averageFrameTime + (delta - this.averageFrameTime) * 0.1;
+    }
+    this.lastFrameTime = frameTime;
+  }
+
+  private createRenderer(canvas: HTMLCanvasElement, antialias: boolean): THREE.WebGLRenderer {
+    // Ensure renderer stays behind text content - depth test disabled for proper layering
+    const renderer = new THREE.WebGLRenderer({
+      canvas,
+      antialias,
+      alpha: true,
+      powerPreference: 'high-performance',
+      depth: false, // Disable depth buffer to ensure it stays behind text
+    });
+    renderer.setClearColor(0x000000, 0);
+    this.bindContextEvents(canvas);
+    return renderer;
+  }
+
+  // WebGL contexts can be dropped at any time (GPU reset, driver update, too many tabs)
+  // We stop rendering, wait for the browser to restore it, and give up after a timeout
+  private bindContextEvents(canvas: HTMLCanvasElement): void {
+    this.unbindContextEvents();
+
+    const handleContextLost = (event: Event) => {
+      // Tells the browser we want the context back
+      event.preventDefault();
+      this.isContextLost = true;
+      log.warn('WebGL context lost');
+
+      if (this.animationId !== null) {
+        cancelAnimationFrame(this.animationId);
+        this.animationId = null;
+      }
+
+      this.contextRestoreTimeout = window.setTimeout(() => {
+        this.contextRestoreTimeout = null;
+        if (this.isContextLost && !this.isDestroyed) {
+          this.requestFallback('context-lost');
+        }
+      }, GalaxySystem.CONTEXT_RESTORE_TIMEOUT);
+    };
+
+    const handleContextRestored = () => {
+      if (this.contextRestoreTimeout !== null) {
+        clearTimeout(this.contextRestoreTimeout);
+        this.contextRestoreTimeout = null;
+      }
+      this.isContextLost = false;
+      log.info('WebGL context restored');
+
+      // Three.js re-uploads geometry, material and textures lazily on the next render
+      this.updatePointScale();
+      this.updateAnimationState();
+    };
+
+    canvas.addEventListener('webglcontextlost', handleContextLost);
+    canvas.addEventListener('webglcontextrestored', handleContextRestored);
+    this.contextLostHandler = handleContextLost;
+    this.contextRestoredHandler = handleContextRestored;
+  }
+
+  private unbindContextEvents(): void {
+    if (this.contextLostHandler) {
+      this.canvas.removeEventListener('webglcontextlost', this.contextLostHandler);
+      this.contextLostHandler = null;
+    }
+    if (this.contextRestoredHandler) {
+      this.canvas.removeEventListener('webglcontextrestored', this.contextRestoredHandler);
+      this.contextRestoredHandler = null;
+    }
+  }
+
+  // Let the page replace the canvas with its static starfield
+  private requestFallback(reason: 'context-lost' | 'renderer-error'): void {
+    log.warn('Falling back to static background:', reason);
+    this.canvas.dispatchEvent(new CustomEvent(GALAXY_FALLBACK_EVENT, {
+      bubbles: true,
+      detail: { reason },
+    }));
+  }
+
+  private applyQualityLevel(level: QualityLevel, index: number, averageFps: number): void {
+    if (this.isDestroyed) return;
+
+    const previous = this.qualityLevel;
+    this.qualityLevel = level;
+    log.info('Quality level changed:', {
+      level: index,
+      averageFps: Math.round(averageFps),
+      particleFraction: level.particleFraction,
+      pixelRatioScale: level.pixelRatioScale,
+      antialias: level.antialias
+    });
+
+    // Antialiasing is fixed at context creation, so toggling it needs a fresh canvas
+    if (level.antialias !== previous.antialias) {
+      try {
+        this.replaceRenderer(level.antialias);
+      } catch (error) {
+        log.error('Failed to recreate renderer:', error);
+        this.requestFallback('renderer-error');
+        return;
+      }
+    }
+
+    this.renderer.setPixelRatio(this.getPixelRatio());
+    this.applyParticleFraction();
+    this.updatePointScale();
+    this.governor?.reset();
+  }
+
+  // Particles are generated in random order, so the first N are an even subsample
+  private applyParticleFraction(): void {
+    if (!this.galaxyPoints) return;
+
+    const total = this.galaxyPoints.geometry.getAttribute('aRadius').count;
+    this.galaxyPoints.geometry.setDrawRange(0, Math.max(1, Math.floor(total * this.qualityLevel.particleFraction)));
+  }
+
+  private replaceRenderer(antialias: boolean): void {
+    const oldCanvas = this.canvas;
+    const newCanvas = oldCanvas.cloneNode(false) as HTMLCanvasElement;
+
+    this.unbindContextEvents();
+    this.renderer.dispose();
+    oldCanvas.replaceWith(newCanvas);
+    this.canvas = newCanvas;
+
+    const size = this.lastSize ?? this.getCanvasSize();
+    this.renderer = this.createRenderer(newCanvas, antialias);
+    this.renderer.setSize(size.width, size.height, false);
   }
 
   private createGalaxy(): void {
     const particleCount = this.optimizedParticleCount;
-    const device = this.deviceType; // Declare once for the entire function
+    const settings = this.settings; // Resolve once for the entire function
     
     this.galaxyGroup = new THREE.Group();
-    this.particles = [];
 
-    const colorInside = new THREE.Color(this.INSIDE_COLOR);
-    const colorOutside = new THREE.Color(this.OUTSIDE_COLOR);
+    // SPIRAL GALAXY STRUCTURE - placement, color, opacity and orbital speed come from the
+    // headless generator (see GalaxyGenerator.ts for the formulas). The same seed always
+    // produces the same galaxy; a null seed picks a fresh one on every page load.
+    const particles = generateGalaxy({
+      ...settings,
+      count: particleCount,
+      seed: settings.seed ?? Math.floor(Math.random() * 2 ** 32),
+    });
 
-    // Create textures for "1" and "0" - white textures that will be tinted blue
-    const texture1 = this.createTextTexture('1');
-    const texture0 = this.createTextTexture('0');
+    // Per-particle attribute buffers - one entry (or vec3) per particle
+    const positions = new Float32Array(particleCount * 3);
+    const radii = new Float32Array(particleCount);
+    const initialAngles = new Float32Array(particleCount);
+    const orbitalSpeeds = new Float32Array(particleCount);
+    const randomOffsets = new Float32Array(particleCount * 3);
+    const digits = new Float32Array(particleCount);
+    const colors = new Float32Array(particleCount * 3);
+    const opacities = new Float32Array(particleCount);
+    const sizes = new Float32Array(particleCount);
 
-    for (let i = 0; i < particleCount; i++) {
-      // SPIRAL GALAXY STRUCTURE FORMULA
-      // Real galaxies follow a logarithmic spiral pattern: r = a * e^(b*θ)
-      // I'm using a simplified version: radius varies, angle = branchAngle + spinAngle
-      
-      // DENSITY DISTRIBUTION - This is crucial for realism!
-      // In real galaxies, stellar density follows: ρ(r) ∝ r^(-α) where α ≈ 2-3
-      // Using Math.pow(Math.random(), 2) creates a distribution where:
-      // - More particles cluster near center (like real galactic bulges)
-      // - Fewer particles in outer regions (like real galactic halos)
-      // This matches observed galaxy density profiles from astronomy
-      // IMPORTANT: Reduced center density to prevent text readability issues
-      const radius = Math.random() * this.RADIUS;
-      // Mobile: power of 3 to reduce center density and prevent text interference
-      // Desktop: power of 2.5 for slightly more center particles (but still reduced) while keeping edges visible
-      const densityPower = device === 'mobile' ? 3 : 2.5;
-      const radiusPower = Math.pow(Math.random(), densityPower);
-      const finalRadius = radiusPower * this.RADIUS;
-      
-      // SPIRAL ARM FORMULA
-      // Each particle's angle = branch angle (which arm) + spin angle (position along arm)
-      // spinAngle = finalRadius * SPIN creates the logarithmic spiral pattern
-      // This is based on density wave theory - how spiral arms form in real galaxies
-      const initialSpinAngle = finalRadius * this.SPIN;
-      // Branch angle distributes particles evenly across spiral arms
-      const branchAngle = ((i % this.BRANCHES) / this.BRANCHES) * Math.PI * 2;
-      const initialAngle = branchAngle + initialSpinAngle;
-
-      // Binary value: determine if particle is "1" or "0"
-      // Using 50/50 distribution for visual variety
-      const binaryValue = Math.random() < 0.5 ? 1 : 0;
-      
-      // RANDOMNESS DISTRIBUTION - Adding realistic dispersion
-      // Real stars don't follow perfect spirals - they have velocity dispersion
-      // Using power distribution: most stars stay close to arm, few drift significantly
-      // This mimics the velocity dispersion observed in real spiral galaxies
-      // The binary sign (1 or -1) ensures symmetric distribution around the spiral
-      const randomX = Math.pow(Math.random(), this.RANDOMNESS_POWER) * this.RANDOMNESS * (Math.random() < 0.5 ? 1 : -1);
-      const randomY = Math.pow(Math.random(), this.RANDOMNESS_POWER) * this.RANDOMNESS * (Math.random() < 0.5 ? 1 : -1);
-      // Z-axis randomness is reduced (0.3 factor) because real spiral galaxies are relatively flat
-      // Most stars orbit in the galactic plane with minimal vertical motion
-      const randomZ = Math.pow(Math.random(), this.RANDOMNESS_POWER) * this.RANDOMNESS * 0.3 * (Math.random() < 0.5 ? 1 : -1);
-
-      // INITIAL POSITION CALCULATION
-      // Using polar coordinates converted to Cartesian: x = r*cos(θ), z = r*sin(θ)
-      // This creates the spiral pattern in the XZ plane (galactic plane)
-      const x = Math.cos(initialAngle) * finalRadius + randomX;
-      // Y-axis kept minimal - real spiral galaxies are disk-shaped, not spherical
-      // Keeping it flat (mostly randomY) maintains the disk structure while allowing slight thickness
-      const y = randomY;
-      const z = Math.sin(initialAngle) * finalRadius + randomZ;
-
-      // COLOR GRADIENT - Based on real galaxy observations
-      // In real galaxies: center is brighter/hotter (blue-white), outer regions dimmer/cooler (red)
-      // Using linear interpolation (lerp) to blend colors based on distance
-      // This creates the visual effect of a bright galactic center fading to darker edges
-      // Matches how we observe galaxies: bright bulge, dimmer spiral arms
-      const mixedColor = colorInside.clone();
-      mixedColor.lerp(colorOutside, finalRadius / this.RADIUS);
-
-      // SPRITE MATERIAL SETUP
-      // Reduced opacity to make background more subtle and less attention-grabbing
-      // CRITICAL: Center particles must have VERY low opacity to prevent text readability issues
-      // The galaxy center overlaps with text content, so center brightness must be minimal
-      const distanceFactor = finalRadius / this.RADIUS;
-      // Increased visibility on mobile for better effect, Desktop: more visible (0.5 base)
-      const baseOpacity = device === 'mobile' ? 0.4 : 0.5;
-      // Inverted opacity: center particles (distanceFactor ~0) have MINIMAL opacity
-      // Outer particles (distanceFactor ~1) can be brighter
-      // Formula ensures center particles are very dim to stay behind text
-      // Edges can be brighter since they don't overlap with text
-      const centerOpacity = baseOpacity * 0.4; // Very low opacity for center
-      const edgeOpacity = baseOpacity * 1.2; // Slightly higher for edges
-      const opacity = centerOpacity + (edgeOpacity - centerOpacity) * distanceFactor;
-      
-      // ADDITIVE BLENDING - This is key for realistic galaxy appearance!
-      // In real galaxies, stars' light adds together (additive)
-      // Using AdditiveBlending makes overlapping particles brighter, like real starlight
-      // Without this, overlapping particles would just overwrite each other
-      // This creates the "glow" effect you see in real galaxy photos
-      const spriteMaterial = new THREE.SpriteMaterial({
-        map: binaryValue === 1 ? texture1 : texture0,
-        transparent: true,
-        opacity: opacity,
-        blending: THREE.AdditiveBlending, // Critical for realistic starlight accumulation
-        color: mixedColor,
-        depthWrite: false, // Disabled for performance with many overlapping sprites
-      });
+    // One shared glyph atlas for "0" and "1" - white, tinted blue in the shader
+    const glyphAtlas = this.createGlyphAtlas();
 
-      const sprite = new THREE.Sprite(spriteMaterial);
-      
-      // Size based on distance and device (smaller further out, adjusted for device)
-      const baseSize = device === 'mobile' ? 0.12 : device === 'tablet' ? 0.14 : 0.15;
-      const size = baseSize * (1 - finalRadius / this.RADIUS * 0.5);
-      sprite.scale.set(size, size, 1);
-      
-      sprite.position.set(x, y, z);
-      
-      // ORBITAL VELOCITY CALCULATION - Based on Kepler's Laws and Galactic Dynamics
-      // In real galaxies, orbital speed follows: v(r) = √(GM(r)/r)
-      // For a point mass: v ∝ 1/√r (Kepler's 3rd law)
-      // However, real galaxies have dark matter halos, so outer stars orbit faster than Kepler predicts
-      // I'm using a simplified version: v = k/√(r+1) where k=0.5
-      // The +1 prevents division by zero and ensures inner particles orbit fastest
-      // This creates realistic differential rotation - inner stars complete orbits faster
-      // Matches observed galactic rotation curves (though simplified)
-      const orbitalSpeed = 0.5 / Math.sqrt(finalRadius + 1);
-      
-      // Store particle data for orbital motion
-      this.particles.push({
-        sprite,
-        initialAngle,
-        radius: finalRadius,
-        orbitalSpeed,
-        branchAngle,
-        randomOffset: { x: randomX, y: randomY, z: randomZ }
+    particles.forEach((particle, i) => {
+      positions[i * 3] = particle.position.x;
+      positions[i * 3 + 1] = particle.position.y;
+      positions[i * 3 + 2] = particle.position.z;
+      radii[i] = particle.radius;
+      initialAngles[i] = particle.initialAngle;
+      orbitalSpeeds[i] = particle.orbitalSpeed;
+      randomOffsets[i * 3] = particle.randomOffset.x;
+      randomOffsets[i * 3 + 1] = particle.randomOffset.y;
+      randomOffsets[i * 3 + 2] = particle.randomOffset.z;
+      digits[i] = particle.digit;
+      colors[i * 3] = particle.color.r;
+      colors[i * 3 + 1] = particle.color.g;
+      colors[i * 3 + 2] = particle.color.b;
+      opacities[i] = particle.opacity;
+      sizes[i] = particle.size;
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    // position holds the t=0 layout; the shader recomputes it from the orbit attributes
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('aRadius', new THREE.BufferAttribute(radii, 1));
+    geometry.setAttribute('aInitialAngle', new THREE.BufferAttribute(initialAngles, 1));
+    geometry.setAttribute('aOrbitalSpeed', new THREE.BufferAttribute(orbitalSpeeds, 1));
+    geometry.setAttribute('aRandomOffset', new THREE.BufferAttribute(randomOffsets, 3));
+    geometry.setAttribute('aDigit', new THREE.BufferAttribute(digits, 1));
+    geometry.setAttribute('aColor', new THREE.BufferAttribute(colors, 3));
+    geometry.setAttribute('aOpacity', new THREE.BufferAttribute(opacities, 1));
+    geometry.setAttribute('aSize', new THREE.BufferAttribute(sizes, 1));
+
+    // ADDITIVE BLENDING - This is key for realistic galaxy appearance!
+    // In real galaxies, stars' light adds together (additive)
+    // Using AdditiveBlending makes overlapping particles brighter, like real starlight
+    // Without this, overlapping particles would just overwrite each other
+    // This creates the "glow" effect you see in real galaxy photos
+    // On a light background that glow adds up to white and disappears, so light themes
+    // switch to normal blending (settings.blending, from the theme's --galaxy-blending)
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uTime: { value: this.time },
+        uSizeScale: { value: 1 },
+        uMap: { value: glyphAtlas },
+      },
+      vertexShader: GALAXY_VERTEX_SHADER,
+      fragmentShader: GALAXY_FRAGMENT_SHADER,
+      transparent: true,
+      blending: THREE_BLENDING[settings.blending], // Additive is critical for realistic starlight accumulation
+      depthWrite: false, // Disabled for performance with many overlapping particles
+    });
+
+    this.galaxyPoints = new THREE.Points(geometry, material);
+    // Particles move in the vertex shader, so the CPU-side bounds would be stale
+    this.galaxyPoints.frustumCulled = false;
+    this.galaxyGroup.add(this.galaxyPoints);
+
+    // MEMBER STARS - one highlighted star per lab member, riding the spiral arms
+    if (this.members.length > 0) {
+      this.memberStars = new MemberStars(this.members, {
+        radius: settings.radius,
+        branches: settings.branches,
+        spin: settings.spin,
+        starSize: settings.memberStarSize,
+        blending: THREE_BLENDING[settings.blending],
       });
-      
-      this.galaxyGroup.add(sprite);
+      this.galaxyGroup.add(this.memberStars.points);
     }
 
+    this.applyParticleFraction();
+    this.updatePointScale();
+
     this.scene.add(this.galaxyGroup);
 
     // INITIAL GALAXY ORIENTATION
     // Rotating slightly to show the spiral structure better (like viewing Andromeda at an angle)
     // Real galaxies are viewed from various angles, so this adds realism
-    this.galaxyGroup.rotation.y = Math.PI * 0.1; // Slight rotation around vertical axis
-    // More inclined angle on mobile for better visual effect while keeping center visible
+    this.galaxyGroup.rotation.y = settings.yaw; // Slight rotation around vertical axis
+    // Default tiers use a different inclination on mobile for better effect while keeping center visible
     // In real observations, we often view galaxies edge-on or face-on, rarely perfectly flat
-    this.galaxyGroup.rotation.x = device === 'mobile' ? -Math.PI * 0.08 : -Math.PI * 0.1;
+    this.galaxyGroup.rotation.x = settings.tilt;
   }
 
   private handleResize(): void {
@@ -449,7 +942,7 @@ export class GalaxySystem {
 
         // Ensure valid dimensions
         if (width === 0 || height === 0) {
-          console.warn('[GalaxySystem] Invalid canvas dimensions detected:', { width, height, source });
+          log.warn('Invalid canvas dimensions detected:', { width, height, source });
           this.updateSizePending = false;
           return;
         }
@@ -462,10 +955,11 @@ export class GalaxySystem {
 
         // Get current device type (may have changed on resize)
         const device = this.deviceType;
+        this.activeSettings = this.settings;
         
         // Log resolution change if size changed
         if (this.lastSize) {
-          console.log('[GalaxySystem] Resolution change detected:', {
+          log.debug('Resolution change detected:', {
             source,
             previous: `${this.lastSize.width}x${this.lastSize.height}`,
             current: `${width}x${height}`,
@@ -476,7 +970,7 @@ export class GalaxySystem {
         
         // Log device type change
         if (this.lastDevice && this.lastDevice !== device) {
-          console.log('[GalaxySystem] Device type changed:', {
+          log.debug('Device type changed:', {
             previous: this.lastDevice,
             current: device,
             resolution: `${width}x${height}`
@@ -499,11 +993,12 @@ export class GalaxySystem {
         
         // Update renderer size immediately
         this.renderer.setSize(width, height, false);
+        this.updatePointScale();
         
         // Force immediate render to show updated camera position
         if (this.galaxyGroup) {
           this.renderer.render(this.scene, this.camera);
-          console.log('[GalaxySystem] Rerendered after resize:', {
+          log.debug('Rerendered after resize:', {
             source,
             resolution: `${width}x${height}`,
             device,
@@ -524,13 +1019,8 @@ export class GalaxySystem {
           if (this.isDestroyed) return;
           
           // Update pixel ratio based on current device
-          const device = this.deviceType;
-          const pixelRatio = device === 'mobile' 
-            ? Math.min(window.devicePixelRatio, 1.5) 
-            : device === 'tablet'
-            ? Math.min(window.devicePixelRatio, 2)
-            : Math.min(window.devicePixelRatio, 2);
-          this.renderer.setPixelRatio(pixelRatio);
+          this.renderer.setPixelRatio(this.getPixelRatio());
+          this.updatePointScale();
         }, 150);
       });
     };
@@ -540,8 +1030,6 @@ export class GalaxySystem {
     
     // Window resize event listener - debounced
     const handleResizeEvent = () => {
-      console.log('[GalaxySystem] Browser resize event detected');
-      
       // Clear existing timeout
       if (resizeDebounceTimeout !== null) {
         clearTimeout(resizeDebounceTimeout);
@@ -556,8 +1044,6 @@ export class GalaxySystem {
     // Orientation change handler (for mobile devices) - debounced
     let orientationDebounceTimeout: number | null = null;
     const handleOrientationChange = () => {
-      console.log('[GalaxySystem] Orientation change detected');
-      
       // Clear existing timeout
       if (orientationDebounceTimeout !== null) {
         clearTimeout(orientationDebounceTimeout);
@@ -583,10 +1069,8 @@ export class GalaxySystem {
         // Debounce ResizeObserver callbacks
         observerDebounceTimeout = window.setTimeout(() => {
           entries.forEach(entry => {
-            const target = entry.target;
-            const isCanvas = target === this.canvas;
-            console.log('[GalaxySystem] ResizeObserver detected size change:', {
-              target: isCanvas ? 'canvas' : 'parent',
+            log.debug('ResizeObserver detected size change:', {
+              target: entry.target === this.canvas ? 'canvas' : 'parent',
               size: `${Math.round(entry.contentRect.width)}x${Math.round(entry.contentRect.height)}`
             });
           });
@@ -614,22 +1098,10 @@ export class GalaxySystem {
     // Set initial visibility state
     this.isPageVisible = !document.hidden;
 
-    // Handle visibility change events
+    // Handle visibility change events - pause animation while hidden to save resources
     const handleVisibilityChange = () => {
       this.isPageVisible = !document.hidden;
-      
-      if (this.isPageVisible) {
-        // Page became visible - resume animation
-        if (!this.animationId && !this.isDestroyed) {
-          this.animate();
-        }
-      } else {
-        // Page became hidden - pause animation to save resources
-        if (this.animationId !== null) {
-          cancelAnimationFrame(this.animationId);
-          this.animationId = null;
-        }
-      }
+      this.updateAnimationState();
     };
 
     // Add visibility change listener
@@ -637,62 +1109,232 @@ export class GalaxySystem {
     this.visibilityHandler = handleVisibilityChange;
   }
 
-  private animate = (): void => {
-    if (this.isDestroyed) return;
+  private handleReducedMotion(): void {
+    if (typeof window.matchMedia !== 'function') return;
+
+    this.reducedMotionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+    this.prefersReducedMotion = this.reducedMotionQuery.matches;
+
+    // The setting can change while the page is open (OS accessibility toggle)
+    const handleChange = (event: MediaQueryListEvent) => {
+      this.prefersReducedMotion = event.matches;
+      this.updateAnimationState();
+    };
+
+    this.reducedMotionQuery.addEventListener('change', handleChange);
+    this.reducedMotionHandler = handleChange;
+  }
 
-    // Only request next frame if page is visible
-    if (this.isPageVisible) {
+  private handleViewportIntersection(): void {
+    if (typeof IntersectionObserver === 'undefined') return;
+
+    // Observe the hero container - the canvas element may be replaced by the governor
+    const target = this.canvas.parentElement ?? this.canvas;
+    this.intersectionObserver = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1];
+      if (!entry) return;
+      this.isInView = entry.isIntersecting;
+      this.updateAnimationState();
+    });
+    this.intersectionObserver.observe(target);
+  }
+
+  private handlePointerInteraction(): void {
+    // The canvas sits under the hero content (pointer-events: none), so listen on the container
+    const target = this.canvas.parentElement;
+    if (!target) return;
+    this.interactionTarget = target;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      this.setPointer(event.clientX, event.clientY);
+      // Parallax target in [-1, 1] on both axes
+      this.parallaxTarget.copy(this.pointer!.ndc);
+      this.updateHoveredMember();
+      if (!this.animationId) this.renderStaticFrame();
+    };
+
+    const handlePointerLeave = () => {
+      this.pointer = null;
+      this.parallaxTarget.set(0, 0);
+      this.updateHoveredMember();
+      if (!this.animationId) this.renderStaticFrame();
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (!this.memberStars) return;
+      // Links and buttons in the hero keep their normal behavior
+      if ((event.target as Element | null)?.closest('a, button, input, select, textarea, label')) return;
+
+      const previousIndex = this.hoveredMemberIndex;
+      this.setPointer(event.clientX, event.clientY);
+      this.updateHoveredMember();
+      const index = this.hoveredMemberIndex;
+      if (index === null) return;
+
+      // Touch has no hover: the first tap shows the tooltip, tapping the same star again opens it
+      const isTouch = (event as PointerEvent).pointerType === 'touch';
+      if (isTouch && previousIndex !== index) return;
+
+      this.canvas.dispatchEvent(new CustomEvent<GalaxyMemberSelectDetail>(GALAXY_MEMBER_SELECT_EVENT, {
+        bubbles: true,
+        detail: { member: this.members[index] },
+      }));
+    };
+
+    target.addEventListener('pointermove', handlePointerMove);
+    target.addEventListener('pointerleave', handlePointerLeave);
+    target.addEventListener('click', handleClick);
+    this.pointerMoveHandler = handlePointerMove;
+    this.pointerLeaveHandler = handlePointerLeave;
+    this.clickHandler = handleClick;
+
+    this.handleDeviceOrientation(target);
+  }
+
+  // Phones have no hover pointer - tilt the camera with the device instead
+  private handleDeviceOrientation(target: HTMLElement): void {
+    if (typeof DeviceOrientationEvent === 'undefined') return;
+    if (!window.matchMedia?.('(pointer: coarse)').matches) return;
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      if (event.gamma === null || event.beta === null) return;
+      // gamma: left/right tilt, beta: front/back tilt (about 45° when holding a phone)
+      this.parallaxTarget.set(
+        THREE.MathUtils.clamp(event.gamma / 30, -1, 1),
+        THREE.MathUtils.clamp((event.beta - 45) / 30, -1, 1)
+      );
+    };
+
+    const listen = () => {
+      window.addEventListener('deviceorientation', handleOrientation);
+      this.deviceOrientationHandler = handleOrientation;
+    };
+
+    // iOS only exposes orientation after a permission prompt triggered by a user gesture
+    const permissionApi: object = DeviceOrientationEvent;
+    if (hasOrientationPermission(permissionApi)) {
+      target.addEventListener('pointerdown', () => {
+        if (this.isDestroyed) return;
+        permissionApi.requestPermission()
+          .then((state) => {
+            if (state === 'granted' && !this.isDestroyed) listen();
+          })
+          .catch(() => {
+            // Denied or unsupported - pointer parallax still works
+          });
+      }, { once: true });
+    } else {
+      listen();
+    }
+  }
+
+  private setPointer(clientX: number, clientY: number): void {
+    const rect = this.canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    this.pointer = {
+      ndc: new THREE.Vector2(
+        ((clientX - rect.left) / rect.width) * 2 - 1,
+        -((clientY - rect.top) / rect.height) * 2 + 1
+      ),
+      clientX,
+      clientY,
+    };
+  }
+
+  // Raycast the member stars under the pointer and report hover changes to the page
+  private updateHoveredMember(): void {
+    if (!this.memberStars) return;
+
+    let index: number | null = null;
+    if (this.pointer) {
+      this.raycaster.params.Points.threshold = this.activeSettings.memberStarSize * 0.6;
+      this.raycaster.setFromCamera(this.pointer.ndc, this.camera);
+      index = this.memberStars.pick(this.raycaster);
+    }
+
+    if (!this.memberStars.setHovered(index)) return;
+    this.hoveredMemberIndex = index;
+
+    if (this.interactionTarget) {
+      this.interactionTarget.style.cursor = index === null ? '' : 'pointer';
+    }
+
+    this.canvas.dispatchEvent(new CustomEvent<GalaxyMemberHoverDetail>(GALAXY_MEMBER_HOVER_EVENT, {
+      bubbles: true,
+      detail: {
+        member: index === null ? null : this.members[index],
+        clientX: this.pointer?.clientX ?? 0,
+        clientY: this.pointer?.clientY ?? 0,
+      },
+    }));
+  }
+
+  private applyParallax(): void {
+    const strength = this.activeSettings.parallaxStrength;
+    if (strength === 0) return;
+
+    this.parallaxCurrent.lerp(this.parallaxTarget, 0.05);
+    const { position, lookAt } = this.activeSettings.camera;
+    this.camera.position.set(
+      position.x + this.parallaxCurrent.x * strength,
+      position.y + this.parallaxCurrent.y * strength * 0.5,
+      position.z
+    );
+    this.camera.lookAt(lookAt.x, lookAt.y, lookAt.z);
+  }
+
+  private animate = (frameTime: number = performance.now()): void => {
+    // Only request next frame while animation is allowed
+    if (this.shouldAnimate) {
       this.animationId = requestAnimationFrame(this.animate);
     } else {
       this.animationId = null;
       return;
     }
 
-    // Only animate if page is visible and galaxy exists
-    if (this.galaxyGroup && this.isPageVisible) {
+    // Only animate if galaxy exists
+    if (this.galaxyGroup) {
       // Reduced time increment to slow down individual particle orbital motion
-      this.time += 0.005; // Slower particle movement for more subtle effect
+      this.time += this.activeSettings.timeStep; // Slower particle movement for more subtle effect
       
       // ORBITAL MOTION SIMULATION - Each particle orbits independently
       // This is the key to realistic galaxy animation!
       // Real stars orbit the galactic center at different speeds (differential rotation)
       // Inner stars complete orbits faster than outer stars - this is what creates spiral arms
       // Formula: θ(t) = θ₀ + ω*t where ω is angular velocity (orbitalSpeed)
-      this.particles.forEach(particle => {
-        // Calculate current angle: initial angle + (angular velocity × time)
-        // This creates differential rotation - each particle moves at its own speed
-        const currentAngle = particle.initialAngle + particle.orbitalSpeed * this.time;
-        
-        // Update position using circular motion: x = r*cos(θ), z = r*sin(θ)
-        // Adding randomOffset maintains the particle's position relative to the spiral arm
-        // This preserves the spiral structure while allowing orbital motion
-        const x = Math.cos(currentAngle) * particle.radius + particle.randomOffset.x;
-        const z = Math.sin(currentAngle) * particle.radius + particle.randomOffset.z;
-        
-        particle.sprite.position.x = x;
-        particle.sprite.position.z = z;
-        // Y position stays relatively constant - stars orbit in the galactic plane
-        // Real stars have minimal vertical motion compared to orbital motion
-        particle.sprite.position.y = particle.randomOffset.y;
-      });
+      // The per-particle evaluation happens in GALAXY_VERTEX_SHADER; we only advance time here
+      if (this.galaxyPoints) {
+        this.galaxyPoints.material.uniforms.uTime.value = this.time;
+      }
+      this.memberStars?.update(this.time);
       
       // OVERALL GALAXY ROTATION
       // Adding slow rotation to the entire galaxy group creates a sense of motion
       // In reality, galaxies rotate, but very slowly (millions of years per rotation)
       // Reduced rotation speed to make it more subtle and less distracting
-      this.galaxyGroup.rotation.y += 0.00003; // Slower rotation for subtle background effect
+      this.galaxyGroup.rotation.y += this.activeSettings.rotationSpeed; // Slow rotation for subtle background effect
+      
+      // CAMERA PARALLAX - ease towards the pointer / device tilt target
+      this.applyParallax();
       
       this.renderer.render(this.scene, this.camera);
+      this.governor?.recordFrame(frameTime);
+      this.recordFrameTime(frameTime);
+
+      // Stars drift under a resting pointer, so re-pick after every rendered frame
+      this.updateHoveredMember();
       
       // Throttled logging for regular rerenders (every 5 seconds)
       this.renderLogCounter++;
       const now = Date.now();
       if (now - this.lastRenderLogTime > 5000) {
         const canvasSize = this.getCanvasSize();
-        console.log('[GalaxySystem] Regular rerender (throttled log):', {
+        log.debug('Regular rerender (throttled log):', {
           frameCount: this.renderLogCounter,
           resolution: `${canvasSize.width}x${canvasSize.height}`,
           device: this.deviceType,
+          qualityLevel: this.governor?.index ?? 'fixed',
           fps: Math.round(this.renderLogCounter / ((now - this.lastRenderLogTime) / 1000))
         });
         this.renderLogCounter = 0;
@@ -709,6 +1351,33 @@ export class GalaxySystem {
       this.animationId = null;
     }
 
+    // Remove pointer and device orientation listeners
+    if (this.interactionTarget) {
+      if (this.pointerMoveHandler) this.interactionTarget.removeEventListener('pointermove', this.pointerMoveHandler);
+      if (this.pointerLeaveHandler) this.interactionTarget.removeEventListener('pointerleave', this.pointerLeaveHandler);
+      if (this.clickHandler) this.interactionTarget.removeEventListener('click', this.clickHandler);
+      this.interactionTarget.style.cursor = '';
+      this.interactionTarget = null;
+    }
+    this.pointerMoveHandler = null;
+    this.pointerLeaveHandler = null;
+    this.clickHandler = null;
+    if (this.deviceOrientationHandler) {
+      window.removeEventListener('deviceorientation', this.deviceOrientationHandler);
+      this.deviceOrientationHandler = null;
+    }
+
+    // Disconnect IntersectionObserver and reduced-motion listener
+    if (this.intersectionObserver) {
+      this.intersectionObserver.disconnect();
+      this.intersectionObserver = null;
+    }
+    if (this.reducedMotionQuery && this.reducedMotionHandler) {
+      this.reducedMotionQuery.removeEventListener('change', this.reducedMotionHandler);
+      this.reducedMotionQuery = null;
+      this.reducedMotionHandler = null;
+    }
+
     // Disconnect ResizeObserver
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
@@ -739,22 +1408,37 @@ export class GalaxySystem {
       this.resizeTimeout = null;
     }
 
-    // Dispose sprites and materials
-    if (this.galaxyGroup) {
-      this.particles.forEach(particle => {
-        const material = particle.sprite.material as THREE.SpriteMaterial;
-        if (material.map) {
-          material.map.dispose();
-        }
-        material.dispose();
-      });
-      
-      this.scene.remove(this.galaxyGroup);
-      this.galaxyGroup = null;
-      this.particles = [];
+    // Remove WebGL context listeners
+    this.unbindContextEvents();
+    if (this.contextRestoreTimeout !== null) {
+      clearTimeout(this.contextRestoreTimeout);
+      this.contextRestoreTimeout = null;
     }
+    this.governor = null;
+
+    // Dispose geometry, material and glyph atlas
+    this.disposeGalaxy();
 
     // Dispose renderer
     this.renderer.dispose();
   }
+
+  private disposeGalaxy(): void {
+    if (!this.galaxyGroup) return;
+
+    if (this.galaxyPoints) {
+      const material = this.galaxyPoints.material;
+      (material.uniforms.uMap.value as THREE.Texture).dispose();
+      material.dispose();
+      this.galaxyPoints.geometry.dispose();
+      this.galaxyPoints = null;
+    }
+    if (this.memberStars) {
+      this.memberStars.dispose();
+      this.memberStars = null;
+    }
+    
+    this.scene.remove(this.galaxyGroup);
+    this.galaxyGroup = null;
+  }
 }
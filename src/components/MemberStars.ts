@@ -0,0 +1,170 @@
+import * as THREE from 'three';
+import { orbitalSpeedAt } from './GalaxyGenerator';
+
+/**
+ * Lab member shown as a highlighted star in the galaxy.
+ * accentColor is any CSS color (already resolved - no var() references).
+ */
+export interface GalaxyMember {
+  slug: string;
+  name: string;
+  role: string;
+  team: string;
+  accentColor: string;
+}
+
+// Member stars glow as a soft disc with a bright core instead of a "0"/"1" glyph
+const MEMBER_STAR_VERTEX_SHADER = /* glsl */ `
+  uniform float uSizeScale;
+
+  attribute vec3 aColor;
+  attribute float aSize;
+
+  varying vec3 vColor;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = aSize * uSizeScale / -mvPosition.z;
+    vColor = aColor;
+  }
+`;
+
+const MEMBER_STAR_FRAGMENT_SHADER = /* glsl */ `
+  varying vec3 vColor;
+
+  void main() {
+    float distanceToCenter = length(gl_PointCoord - vec2(0.5));
+    if (distanceToCenter > 0.5) discard;
+
+    float halo = pow(1.0 - distanceToCenter * 2.0, 2.0);
+    float core = smoothstep(0.12, 0.0, distanceToCenter);
+    gl_FragColor = vec4(mix(vColor, vec3(1.0), core * 0.6), halo * 0.85 + core);
+    #include <colorspace_fragment>
+  }
+`;
+
+// Stars stay away from the dense center (and the hero text) and the ragged rim
+const INNER_RADIUS_FRACTION = 0.35;
+const OUTER_RADIUS_FRACTION = 0.85;
+const HOVER_SIZE_MULTIPLIER = 1.6;
+
+interface MemberStarOrbit {
+  radius: number;
+  initialAngle: number;
+  orbitalSpeed: number;
+}
+
+/**
+ * One THREE.Points object holding a star per member.
+ *
+ * Unlike the background particles, positions are advanced on the CPU (there are only a
+ * handful of members) so Three.js raycasting sees the same positions that are drawn.
+ */
+export class MemberStars {
+  public readonly points: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial>;
+  public readonly members: readonly GalaxyMember[];
+  private orbits: MemberStarOrbit[];
+  private baseSize: number;
+  private hoveredIndex: number | null = null;
+
+  constructor(
+    members: readonly GalaxyMember[],
+    galaxy: { radius: number; branches: number; spin: number; starSize: number; blending: THREE.Blending }
+  ) {
+    this.members = members;
+    this.baseSize = galaxy.starSize;
+
+    // Spread members evenly along the arms: arm by index, distance by rank
+    this.orbits = members.map((_, index) => {
+      const progress = members.length > 1 ? index / (members.length - 1) : 0.5;
+      const radius = galaxy.radius * (INNER_RADIUS_FRACTION + (OUTER_RADIUS_FRACTION - INNER_RADIUS_FRACTION) * progress);
+      const branchAngle = ((index % galaxy.branches) / galaxy.branches) * Math.PI * 2;
+      return {
+        radius,
+        initialAngle: branchAngle + radius * galaxy.spin,
+        // Same rotation curve as the background particles so stars stay on their arm
+        orbitalSpeed: orbitalSpeedAt(radius),
+      };
+    });
+
+    const positions = new Float32Array(members.length * 3);
+    const colors = new Float32Array(members.length * 3);
+    const sizes = new Float32Array(members.length);
+    const color = new THREE.Color();
+
+    members.forEach((member, index) => {
+      color.set(member.accentColor);
+      colors[index * 3] = color.r;
+      colors[index * 3 + 1] = color.g;
+      colors[index * 3 + 2] = color.b;
+      sizes[index] = this.baseSize;
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('aColor', new THREE.BufferAttribute(colors, 3));
+    geometry.setAttribute('aSize', new THREE.BufferAttribute(sizes, 1));
+
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uSizeScale: { value: 1 },
+      },
+      vertexShader: MEMBER_STAR_VERTEX_SHADER,
+      fragmentShader: MEMBER_STAR_FRAGMENT_SHADER,
+      transparent: true,
+      blending: galaxy.blending,
+      depthWrite: false,
+    });
+
+    this.points = new THREE.Points(geometry, material);
+    this.update(0);
+  }
+
+  // Move every star to its orbital position at the given simulation time
+  update(time: number): void {
+    const position = this.points.geometry.getAttribute('position') as THREE.BufferAttribute;
+
+    this.orbits.forEach((orbit, index) => {
+      const angle = orbit.initialAngle + orbit.orbitalSpeed * time;
+      position.setXYZ(index, Math.cos(angle) * orbit.radius, 0, Math.sin(angle) * orbit.radius);
+    });
+
+    position.needsUpdate = true;
+    this.points.geometry.computeBoundingSphere();
+  }
+
+  setSizeScale(value: number): void {
+    this.points.material.uniforms.uSizeScale.value = value;
+  }
+
+  // Returns the index of the closest star hit by the ray, or null
+  pick(raycaster: THREE.Raycaster): number | null {
+    const hits = raycaster.intersectObject(this.points, false);
+    if (hits.length === 0) return null;
+
+    hits.sort((a, b) => (a.distanceToRay ?? 0) - (b.distanceToRay ?? 0));
+    return hits[0].index ?? null;
+  }
+
+  // Enlarge the hovered star; returns false when nothing changed
+  setHovered(index: number | null): boolean {
+    if (index === this.hoveredIndex) return false;
+
+    const sizes = this.points.geometry.getAttribute('aSize') as THREE.BufferAttribute;
+    if (this.hoveredIndex !== null) {
+      sizes.setX(this.hoveredIndex, this.baseSize);
+    }
+    if (index !== null) {
+      sizes.setX(index, this.baseSize * HOVER_SIZE_MULTIPLIER);
+    }
+    sizes.needsUpdate = true;
+    this.hoveredIndex = index;
+    return true;
+  }
+
+  dispose(): void {
+    this.points.geometry.dispose();
+    this.points.material.dispose();
+  }
+}
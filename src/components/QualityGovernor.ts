@@ -0,0 +1,130 @@
+/**
+ * Adaptive quality governor for the galaxy renderer.
+ *
+ * Watches real frame times and steps through a ladder of quality levels to hold a target
+ * frame rate. Frames are averaged over fixed windows so a single hitch never triggers a
+ * change; stepping down is quick (one slow window), stepping up needs several good windows
+ * in a row and backs off further each time a level had to be abandoned again.
+ */
+
+export interface QualityLevel {
+  // Fraction of the generated particles that are drawn
+  particleFraction: number;
+  // Multiplier applied to the device pixel ratio cap
+  pixelRatioScale: number;
+  // MSAA - changing it requires a new WebGL context
+  antialias: boolean;
+}
+
+// Ordered from cheapest to most expensive
+export const QUALITY_LEVELS: readonly QualityLevel[] = [
+  { particleFraction: 0.3, pixelRatioScale: 0.5, antialias: false },
+  { particleFraction: 0.5, pixelRatioScale: 0.75, antialias: false },
+  { particleFraction: 0.75, pixelRatioScale: 1, antialias: false },
+  { particleFraction: 1, pixelRatioScale: 1, antialias: true },
+];
+
+export interface QualityGovernorOptions {
+  targetFps: number;
+  levels?: readonly QualityLevel[];
+  initialLevel?: number;
+  onChange: (level: QualityLevel, index: number, averageFps: number) => void;
+}
+
+// Length of one measurement window
+const WINDOW_MS = 2000;
+// Frame gaps longer than this are pauses (hidden tab, paused loop), not slow frames
+const MAX_FRAME_GAP_MS = 250;
+// A window is "slow" below this share of the target and "good" above the second share
+const DOWNGRADE_RATIO = 0.85;
+const UPGRADE_RATIO = 0.95;
+const BASE_UPGRADE_WINDOWS = 3;
+const MAX_UPGRADE_WINDOWS = 24;
+
+export class QualityGovernor {
+  private readonly targetFps: number;
+  private readonly levels: readonly QualityLevel[];
+  private readonly onChange: QualityGovernorOptions['onChange'];
+  private levelIndex: number;
+  private lastFrameTime: number | null = null;
+  private windowFrames = 0;
+  private windowDuration = 0;
+  private goodWindows = 0;
+  private upgradeWindows = BASE_UPGRADE_WINDOWS;
+  private lastUpgradeFrom: number | null = null;
+
+  constructor(options: QualityGovernorOptions) {
+    this.targetFps = options.targetFps;
+    this.levels = options.levels ?? QUALITY_LEVELS;
+    this.levelIndex = Math.min(options.initialLevel ?? this.levels.length - 1, this.levels.length - 1);
+    this.onChange = options.onChange;
+  }
+
+  get level(): QualityLevel {
+    return this.levels[this.levelIndex];
+  }
+
+  get index(): number {
+    return this.levelIndex;
+  }
+
+  // Call once per rendered frame with the rAF timestamp
+  recordFrame(now: number): void {
+    if (this.lastFrameTime === null) {
+      this.lastFrameTime = now;
+      return;
+    }
+
+    const delta = now - this.lastFrameTime;
+    this.lastFrameTime = now;
+    if (delta <= 0 || delta > MAX_FRAME_GAP_MS) return;
+
+    this.windowFrames++;
+    this.windowDuration += delta;
+    if (this.windowDuration < WINDOW_MS) return;
+
+    const averageFps = (this.windowFrames * 1000) / this.windowDuration;
+    this.windowFrames = 0;
+    this.windowDuration = 0;
+    this.evaluate(averageFps);
+  }
+
+  // Forget the current measurement, e.g. after the loop was paused or the context restored
+  reset(): void {
+    this.lastFrameTime = null;
+    this.windowFrames = 0;
+    this.windowDuration = 0;
+    this.goodWindows = 0;
+  }
+
+  private evaluate(averageFps: number): void {
+    if (averageFps < this.targetFps * DOWNGRADE_RATIO) {
+      this.goodWindows = 0;
+      if (this.levelIndex === 0) return;
+
+      // The level we just upgraded to could not hold - wait longer before trying again
+      if (this.lastUpgradeFrom === this.levelIndex - 1) {
+        this.upgradeWindows = Math.min(this.upgradeWindows * 2, MAX_UPGRADE_WINDOWS);
+      }
+      this.lastUpgradeFrom = null;
+      this.setLevel(this.levelIndex - 1, averageFps);
+      return;
+    }
+
+    if (averageFps >= this.targetFps * UPGRADE_RATIO) {
+      this.goodWindows++;
+      if (this.goodWindows >= this.upgradeWindows && this.levelIndex < this.levels.length - 1) {
+        this.goodWindows = 0;
+        this.lastUpgradeFrom = this.levelIndex;
+        this.setLevel(this.levelIndex + 1, averageFps);
+      }
+    } else {
+      this.goodWindows = 0;
+    }
+  }
+
+  private setLevel(index: number, averageFps: number): void {
+    this.levelIndex = index;
+    this.onChange(this.levels[index], index, averageFps);
+  }
+}
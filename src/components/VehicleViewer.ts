@@ -0,0 +1,341 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('VehicleViewer');
+
+/**
+ * Interactive glTF viewer for the robots on /fleet and the team pages.
+ *
+ * Renders on demand (orbit moves, damping and the exploded-view animation) instead of every
+ * frame, and not at all while scrolled out of view. Hotspot markers are plain buttons in the
+ * page, moved over their 3D point after each frame so they stay focusable and readable.
+ * VehicleViewer.astro creates the viewer when it scrolls into view and calls destroy() on
+ * page unload, like Hero.astro does with GalaxySystem.
+ */
+
+export type Vector3Tuple = [number, number, number];
+
+export interface VehicleViewerPart {
+  id: string;
+  // glTF node names
+  nodes: string[];
+  // Offset in the exploded view, in model units
+  explode: Vector3Tuple;
+}
+
+export interface VehicleViewerHotspot {
+  id: string;
+  position: Vector3Tuple;
+  // Part the hotspot belongs to: it follows the part's exploded offset and hides with it
+  part?: string;
+}
+
+export interface VehicleViewerConfig {
+  modelUrl: string;
+  parts: VehicleViewerPart[];
+  hotspots: VehicleViewerHotspot[];
+  camera?: { position: Vector3Tuple; target: Vector3Tuple };
+}
+
+const EXPLODE_DURATION_MS = 700;
+
+interface ResolvedPart {
+  nodes: { object: THREE.Object3D; origin: THREE.Vector3; offset: THREE.Vector3 }[];
+  // Model-space offset, for the hotspots on this part
+  explode: THREE.Vector3;
+  visible: boolean;
+}
+
+export class VehicleViewer {
+  private container: HTMLElement;
+  private config: VehicleViewerConfig;
+  private renderer: THREE.WebGLRenderer;
+  private scene = new THREE.Scene();
+  private camera = new THREE.PerspectiveCamera(35, 1, 0.01, 1000);
+  private controls: OrbitControls;
+  private model: THREE.Object3D | null = null;
+  private parts = new Map<string, ResolvedPart>();
+  private hotspotElements = new Map<string, HTMLElement>();
+  private initialView: { position: THREE.Vector3; target: THREE.Vector3 } | null = null;
+
+  private frameId: number | null = null;
+  private isInView = true;
+  private isDestroyed = false;
+  private resizeObserver: ResizeObserver | null = null;
+  private intersectionObserver: IntersectionObserver | null = null;
+  private controlsChangeHandler = () => this.requestRender();
+
+  // Exploded view: 0 = assembled, 1 = fully exploded
+  private explodeProgress = 0;
+  private explodeTarget = 0;
+  private explodeAnimation: { from: number; startTime: number } | null = null;
+
+  constructor(container: HTMLElement, canvas: HTMLCanvasElement, config: VehicleViewerConfig) {
+    this.container = container;
+    this.config = config;
+
+    // Throws without WebGL - callers catch it and keep the poster
+    this.renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true });
+    this.renderer.setClearColor(0x000000, 0);
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+
+    // Neutral studio lighting that works on both the dark and the light theme
+    this.scene.add(new THREE.HemisphereLight(0xffffff, 0x444455, 2));
+    const keyLight = new THREE.DirectionalLight(0xffffff, 2.5);
+    keyLight.position.set(3, 5, 4);
+    this.scene.add(keyLight);
+
+    this.controls = new OrbitControls(this.camera, canvas);
+    this.controls.enableDamping = true;
+    this.controls.enablePan = false;
+    this.controls.addEventListener('change', this.controlsChangeHandler);
+
+    container.querySelectorAll<HTMLElement>('[data-hotspot]').forEach((element) => {
+      this.hotspotElements.set(element.dataset.hotspot!, element);
+    });
+
+    this.observeSize();
+    this.observeViewport();
+  }
+
+  // Fetch and show the model; rejects when it cannot be loaded
+  public async load(): Promise<void> {
+    try {
+      const gltf = await new GLTFLoader().loadAsync(this.config.modelUrl);
+      if (this.isDestroyed) {
+        this.disposeObject(gltf.scene);
+        return;
+      }
+      this.model = gltf.scene;
+      this.scene.add(this.model);
+    } catch (error) {
+      log.error(`Failed to load ${this.config.modelUrl}:`, error);
+      throw error;
+    }
+
+    this.resolveParts();
+    this.frameModel();
+    this.requestRender();
+  }
+
+  public get isExploded(): boolean {
+    return this.explodeTarget === 1;
+  }
+
+  public setExploded(exploded: boolean): void {
+    const target = exploded ? 1 : 0;
+    if (target === this.explodeTarget) return;
+
+    this.explodeTarget = target;
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      this.explodeAnimation = null;
+      this.applyExplode(target);
+    } else {
+      this.explodeAnimation = { from: this.explodeProgress, startTime: performance.now() };
+    }
+    this.requestRender();
+  }
+
+  public setPartVisible(id: string, visible: boolean): void {
+    const part = this.parts.get(id);
+    if (!part) return;
+
+    part.visible = visible;
+    part.nodes.forEach(({ object }) => {
+      object.visible = visible;
+    });
+    this.requestRender();
+  }
+
+  public resetView(): void {
+    if (!this.initialView) return;
+
+    this.camera.position.copy(this.initialView.position);
+    this.controls.target.copy(this.initialView.target);
+    this.controls.update();
+    this.requestRender();
+  }
+
+  // Look up the configured node names; unknown names are reported and skipped
+  private resolveParts(): void {
+    if (!this.model) return;
+    this.model.updateMatrixWorld(true);
+
+    for (const part of this.config.parts) {
+      const explode = new THREE.Vector3(...part.explode);
+      const nodes = part.nodes.flatMap((name) => {
+        const object = this.model!.getObjectByName(name);
+        if (!object) {
+          log.warn(`Part "${part.id}": no node named "${name}" in ${this.config.modelUrl}`);
+          return [];
+        }
+        // The offset is given in model space; convert it to the node's parent space
+        const worldPosition = object.getWorldPosition(new THREE.Vector3());
+        const offset = object.parent
+          ? object.parent.worldToLocal(worldPosition.clone().add(explode)).sub(object.parent.worldToLocal(worldPosition))
+          : explode.clone();
+        return [{ object, origin: object.position.clone(), offset }];
+      });
+      this.parts.set(part.id, { nodes, explode, visible: true });
+    }
+  }
+
+  // Aim the camera at the model: the configured view, or the whole model from the front left
+  private frameModel(): void {
+    if (!this.model) return;
+
+    const box = new THREE.Box3().setFromObject(this.model);
+    const size = box.getSize(new THREE.Vector3()).length() || 1;
+    const center = box.getCenter(new THREE.Vector3());
+
+    const position = this.config.camera
+      ? new THREE.Vector3(...this.config.camera.position)
+      : center.clone().add(new THREE.Vector3(-0.9, 0.55, 1.1).multiplyScalar(size));
+    const target = this.config.camera ? new THREE.Vector3(...this.config.camera.target) : center;
+
+    this.camera.near = size / 100;
+    this.camera.far = size * 100;
+    this.camera.updateProjectionMatrix();
+    this.controls.minDistance = size * 0.3;
+    this.controls.maxDistance = size * 4;
+
+    this.initialView = { position, target };
+    this.resetView();
+  }
+
+  private applyExplode(progress: number): void {
+    this.explodeProgress = progress;
+    this.parts.forEach((part) => {
+      part.nodes.forEach(({ object, origin, offset }) => {
+        object.position.copy(origin).addScaledVector(offset, progress);
+      });
+    });
+  }
+
+  private updateExplodeAnimation(now: number): boolean {
+    if (!this.explodeAnimation) return false;
+
+    const elapsed = Math.min(1, (now - this.explodeAnimation.startTime) / EXPLODE_DURATION_MS);
+    // Ease in-out so parts start and settle gently
+    const eased = elapsed < 0.5 ? 2 * elapsed * elapsed : 1 - Math.pow(-2 * elapsed + 2, 2) / 2;
+    const { from } = this.explodeAnimation;
+    this.applyExplode(from + (this.explodeTarget - from) * eased);
+
+    if (elapsed >= 1) this.explodeAnimation = null;
+    return this.explodeAnimation !== null;
+  }
+
+  // Move each hotspot button over its point; hide it behind the camera or with its part
+  private updateHotspots(): void {
+    const { clientWidth: width, clientHeight: height } = this.renderer.domElement;
+    const point = new THREE.Vector3();
+
+    for (const hotspot of this.config.hotspots) {
+      const element = this.hotspotElements.get(hotspot.id);
+      if (!element) continue;
+
+      const part = hotspot.part ? this.parts.get(hotspot.part) : undefined;
+      point.set(...hotspot.position);
+      if (part) point.addScaledVector(part.explode, this.explodeProgress);
+      point.project(this.camera);
+
+      const visible = this.model !== null && (part?.visible ?? true) && point.z < 1;
+      element.hidden = !visible;
+      if (visible) {
+        element.style.transform = `translate(${((point.x + 1) / 2) * width}px, ${((1 - point.y) / 2) * height}px)`;
+      }
+    }
+  }
+
+  private requestRender(): void {
+    if (this.frameId !== null || this.isDestroyed || !this.isInView) return;
+    this.frameId = requestAnimationFrame(this.renderFrame);
+  }
+
+  private renderFrame = (now: number): void => {
+    this.frameId = null;
+    if (this.isDestroyed) return;
+
+    const animating = this.updateExplodeAnimation(now);
+    // Returns true while damping is still moving the camera
+    const moving = this.controls.update();
+
+    this.renderer.render(this.scene, this.camera);
+    this.updateHotspots();
+
+    if (animating || moving) this.requestRender();
+  };
+
+  private observeSize(): void {
+    const resize = () => {
+      const { clientWidth: width, clientHeight: height } = this.container;
+      if (width === 0 || height === 0) return;
+      this.renderer.setSize(width, height, false);
+      this.camera.aspect = width / height;
+      this.camera.updateProjectionMatrix();
+      this.requestRender();
+    };
+
+    resize();
+    if (typeof ResizeObserver === 'undefined') return;
+    this.resizeObserver = new ResizeObserver(resize);
+    this.resizeObserver.observe(this.container);
+  }
+
+  private observeViewport(): void {
+    if (typeof IntersectionObserver === 'undefined') return;
+
+    this.intersectionObserver = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1];
+      if (!entry) return;
+      this.isInView = entry.isIntersecting;
+      if (this.isInView) this.requestRender();
+    });
+    this.intersectionObserver.observe(this.container);
+  }
+
+  private disposeObject(root: THREE.Object3D): void {
+    root.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) return;
+      object.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+      materials.forEach((material) => {
+        // Textures hang off material properties (map, normalMap, ...)
+        Object.values(material).forEach((value) => {
+          if (value instanceof THREE.Texture) value.dispose();
+        });
+        material.dispose();
+      });
+    });
+  }
+
+  public destroy(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = null;
+
+    this.controls.removeEventListener('change', this.controlsChangeHandler);
+    this.controls.dispose();
+
+    if (this.model) {
+      this.scene.remove(this.model);
+      this.disposeObject(this.model);
+      this.model = null;
+    }
+    this.parts.clear();
+    this.hotspotElements.clear();
+
+    this.renderer.dispose();
+  }
+}
@@ -0,0 +1,105 @@
+import type { Dictionary } from '../i18n';
+
+/**
+ * Facts about the lab used across the site: page markup, meta tags and structured data.
+ * Imported by astro.config.mjs too, so it must not import anything from Astro.
+ */
+
+export type SocialNetwork = 'github' | 'instagram' | 'linkedin' | 'facebook' | 'youtube' | 'x';
+
+export interface SocialProfile {
+  network: SocialNetwork;
+  url: string;
+  // Shown and read out instead of the network name, e.g. "Drift Lab on Instagram"
+  label?: string;
+}
+
+export interface SiteContact {
+  name: string;
+  email: string;
+}
+
+export interface NavItem {
+  // Label from the "nav" section of the dictionaries
+  key: keyof Dictionary['nav'];
+  // Unlocalized site path; localizePath() adds the locale prefix
+  path: string;
+  menus: readonly ('header' | 'footer')[];
+}
+
+export interface SiteConfig {
+  name: string;
+  alternateName: string;
+  // Production origin, no trailing slash
+  url: string;
+  // Path in public/
+  logo: string;
+  address: {
+    street: string;
+    room: string;
+    locality: string;
+    // ISO 3166-1 alpha-2
+    country: string;
+  };
+  geo: {
+    latitude: number;
+    longitude: number;
+  };
+  mapUrl: string;
+  institute: string;
+  university: string;
+  contacts: readonly SiteContact[];
+  // The lab's own profiles; team profiles are in teams.json
+  social: readonly SocialProfile[];
+}
+
+export const SITE: SiteConfig = {
+  name: 'Drift Lab',
+  alternateName: 'Drift Laboratory',
+  url: 'https://driftlab.ro',
+  logo: '/drift-logo.png',
+  address: {
+    street: 'Bulevardul Iuliu Maniu 6',
+    room: 'Room 515',
+    locality: 'Bucharest',
+    country: 'RO',
+  },
+  geo: {
+    latitude: 44.4349924,
+    longitude: 26.0458088,
+  },
+  mapUrl: 'https://www.google.com/maps/place/Centrul+CAMPUS/@44.4351178,26.0462069,18.5z/data=!4m6!3m5!1s0x40b201c4f8a217a7:0x39b9e6d086b107fa!8m2!3d44.4349924!4d26.0458088!16s%2Fg%2F11cmgxdw0y?entry=ttu',
+  institute: 'CAMPUS Research Institute',
+  university: 'Politehnica University of Bucharest',
+  contacts: [
+    { name: 'Cosmin Rusu', email: 'rusucosminconstantin@gmail.com' },
+    { name: 'Iatagan Andrei', email: 'iatagan.andrei@gmail.com' },
+  ],
+  // e.g. { network: 'instagram', url: 'https://www.instagram.com/<account>/' }; the footer hides its icons while empty
+  social: [],
+};
+
+// Partner tiers, highest first (src/data/partners.json)
+export const PARTNER_TIERS = ['host', 'gold', 'silver', 'bronze', 'partner'] as const;
+export type PartnerTier = (typeof PARTNER_TIERS)[number];
+
+// Tiers shown in the hero's "Supported by" strip; every tier is listed on /partners
+export const HERO_PARTNER_TIERS: readonly PartnerTier[] = ['host', 'gold'];
+
+// Site navigation, in display order
+export const NAV_ITEMS: readonly NavItem[] = [
+  { key: 'home', path: '/', menus: ['header', 'footer'] },
+  { key: 'teams', path: '/#teams', menus: ['header', 'footer'] },
+  { key: 'members', path: '/#members', menus: ['header'] },
+  { key: 'research', path: '/research', menus: ['header', 'footer'] },
+  { key: 'news', path: '/news', menus: ['header', 'footer'] },
+  { key: 'join', path: '/join', menus: ['footer'] },
+  { key: 'fleet', path: '/fleet', menus: ['footer'] },
+  { key: 'partners', path: '/partners', menus: ['footer'] },
+  { key: 'alumni', path: '/alumni', menus: ['footer'] },
+  { key: 'contact', path: '/contact', menus: ['header', 'footer'] },
+];
+
+export function getNavItems(menu: NavItem['menus'][number]): NavItem[] {
+  return NAV_ITEMS.filter((item) => item.menus.includes(menu));
+}
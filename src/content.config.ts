@@ -0,0 +1,573 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { defineCollection, reference, z } from 'astro:content';
+import { file, glob, type Loader } from 'astro/loaders';
+import membersData from './data/members.json';
+import teamsData from './data/teams.json';
+import { PARTNER_TIERS } from './config/site';
+import { LOCALES } from './i18n/config';
+import { cleanLatex, formatBibtex, parseAuthors, parseBibtex, type BibtexEntry } from './utils/bibtex';
+import { toSlug } from './utils/slug';
+
+const MEMBERS_FILE = 'src/data/members.json';
+const MEMBER_PHOTOS_DIR = 'src/assets/members/';
+const TEAM_IMAGES_DIR = 'public/images/teams/';
+const PUBLICATIONS_DIR = 'src/data/publications/';
+const NEWS_DIR = 'src/data/news/';
+const VEHICLE_MODELS_DIR = 'public/models/';
+const PARTNER_LOGOS_DIR = 'public/images/partners/';
+
+const TEAM_IDS = teamsData.map((team) => team.id);
+
+// Team references are checked here: Astro does not verify that a referenced entry exists
+const teamId = z
+  .string()
+  .refine((id) => TEAM_IDS.includes(id), (id) => ({
+    message: `Unknown team "${id}". Known teams (src/data/teams.json): ${TEAM_IDS.join(', ')}`,
+  }))
+  .pipe(reference('teams'));
+
+// Same ids as membersLoader() below
+const MEMBER_SLUGS = (membersData as { name: string; slug?: string }[]).map((member) => member.slug || toSlug(member.name));
+
+const memberId = z
+  .string()
+  .refine((id) => MEMBER_SLUGS.includes(id), (id) => ({
+    message: `Unknown member "${id}". Use the slug from the member's profile URL (/members/<slug>/)`,
+  }))
+  .pipe(reference('members'));
+
+// Per-locale overrides of a few text fields, e.g. "translations": { "ro": { "shortDesc": "..." } }
+// Fields without a translation fall back to the English original
+function translations<T extends z.ZodRawShape>(fields: T) {
+  return z.record(z.enum(LOCALES), z.object(fields).partial()).default({});
+}
+
+// File name inside a public/ directory; a missing file fails the build like a missing member photo
+function publicFile(directory: string) {
+  return z
+    .string()
+    .min(1)
+    .refine((name) => existsSync(join(process.cwd(), directory, name)), (name) => ({
+      message: `File "${name}" not found in ${directory}`,
+    }));
+}
+
+const teams = defineCollection({
+  loader: file('src/data/teams.json'),
+  schema: z.object({
+    name: z.string().min(1),
+    // Main competition, shown on the team card
+    competition: z.string().min(1).optional(),
+    description: z.string().min(1),
+    // Any CSS color, usually one of the --color-accent-* variables from global.css
+    color: z.string().min(1),
+    logo: publicFile(TEAM_IMAGES_DIR).optional(),
+    links: z
+      .object({
+        website: z.string().url().optional(),
+        github: z.string().url().optional(),
+        instagram: z.string().url().optional(),
+        linkedin: z.string().url().optional(),
+        youtube: z.string().url().optional(),
+      })
+      .default({}),
+    gallery: z
+      .array(
+        z.object({
+          image: publicFile(TEAM_IMAGES_DIR),
+          alt: z.string().min(1),
+          caption: z.string().optional(),
+        })
+      )
+      .default([]),
+    translations: translations({ description: z.string().min(1) }),
+  }),
+});
+
+// Photos are named by file in members.json and handed to image() relative to that file
+const MEMBER_PHOTOS_FROM_DATA = posix.relative(posix.dirname(MEMBERS_FILE), MEMBER_PHOTOS_DIR);
+
+/**
+ * members.json is a plain array; each entry's id is its "slug" field or, when absent,
+ * toSlug(name). Unlike the file() loader, which only warns and keeps the last entry,
+ * duplicate slugs and missing photo files fail the build.
+ */
+function membersLoader(): Loader {
+  return {
+    name: 'members-loader',
+    load: async ({ store, parseData, generateDigest, config, watcher }) => {
+      const fileUrl = new URL(MEMBERS_FILE, config.root);
+      const filePath = fileURLToPath(fileUrl);
+      const photosUrl = new URL(MEMBER_PHOTOS_DIR, config.root);
+
+      const load = async () => {
+        const entries = JSON.parse(await readFile(fileUrl, 'utf-8')) as Record<string, unknown>[];
+        const seen = new Map<string, string>();
+        store.clear();
+
+        for (const raw of entries) {
+          const { slug, photo, ...rest } = raw;
+          const name = String(rest.name ?? '');
+          const id = typeof slug === 'string' && slug ? slug : toSlug(name);
+
+          const previous = seen.get(id);
+          if (previous !== undefined) {
+            throw new Error(
+              `Duplicate member slug "${id}" in ${MEMBERS_FILE} ("${previous}" and "${name}"). ` +
+              'Give one of them an explicit "slug".'
+            );
+          }
+          seen.set(id, name);
+
+          if (photo !== undefined) {
+            if (typeof photo !== 'string' || !photo || photo.includes('/') || photo.includes('\\')) {
+              throw new Error(
+                `Member "${id}": photo must be a file name in ${MEMBER_PHOTOS_DIR}, got ${JSON.stringify(photo)}`
+              );
+            }
+            if (!existsSync(new URL(photo, photosUrl))) {
+              throw new Error(`Member "${id}": photo "${photo}" not found in ${MEMBER_PHOTOS_DIR}`);
+            }
+            rest.photo = `${MEMBER_PHOTOS_FROM_DATA}/${photo}`;
+          }
+
+          const data = await parseData({ id, data: rest, filePath });
+          store.set({ id, data, filePath: MEMBERS_FILE, digest: generateDigest(data) });
+        }
+      };
+
+      await load();
+
+      watcher?.add(filePath);
+      watcher?.on('change', async (changedPath) => {
+        if (changedPath === filePath) await load();
+      });
+    },
+  };
+}
+
+// Academic year as written in members.json, e.g. "2024-2025"; parsed to the year it starts in (2024)
+const academicYear = z
+  .string()
+  .regex(/^\d{4}-\d{4}$/, 'Academic years are written like "2024-2025"')
+  .refine((value) => Number(value.slice(5)) === Number(value.slice(0, 4)) + 1, {
+    message: 'The two years of an academic year are consecutive, e.g. "2024-2025"',
+  })
+  .transform((value) => Number(value.slice(0, 4)));
+
+// One role held over one or more consecutive academic years
+const membershipPeriod = z
+  .object({
+    from: academicYear,
+    // Last academic year of the period; left out while the role is ongoing
+    to: academicYear.optional(),
+    // Left out for lab-wide roles such as lab lead
+    team: teamId.optional(),
+    role: z.string().min(1),
+  })
+  .refine((period) => period.to === undefined || period.to >= period.from, {
+    message: '"to" is before "from"',
+    path: ['to'],
+  });
+
+const members = defineCollection({
+  loader: membersLoader(),
+  schema: ({ image }) => z.object({
+    name: z.string().min(1),
+    shortDesc: z.string(),
+    teams: z.array(teamId).default([]),
+    roles: z.array(z.string().min(1)).min(1),
+    // File name inside src/assets/members, optimized at build time; members without one get an initials avatar
+    photo: image().optional(),
+    isSupervisor: z.boolean().default(false),
+    status: z.enum(['active', 'alumni']).default('active'),
+    joinYear: z.number().int().min(2000).max(2100).optional(),
+    // Roles in the lab by academic year, oldest first; feeds /alumni and the homepage stats
+    history: z.array(membershipPeriod).default([]),
+    // Where an alumnus went after the lab, e.g. "Robotics engineer at ..."
+    nextStep: z.string().min(1).optional(),
+    links: z
+      .object({
+        email: z.string().email().optional(),
+        github: z.string().url().optional(),
+        linkedin: z.string().url().optional(),
+        website: z.string().url().optional(),
+      })
+      .default({}),
+    projects: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          description: z.string().optional(),
+          url: z.string().url().optional(),
+        })
+      )
+      .default([]),
+    translations: translations({ shortDesc: z.string().min(1), nextStep: z.string().min(1) }),
+  }).superRefine((member, context) => {
+    if (member.status !== 'alumni') return;
+    member.history.forEach((period, index) => {
+      if (period.to === undefined) {
+        context.addIssue({
+          code: 'custom',
+          message: 'Alumni have no ongoing roles: set "to" to the last academic year of this role',
+          path: ['history', index, 'to'],
+        });
+      }
+    });
+  }),
+});
+
+// Fields only this site understands; they are left out of the BibTeX offered for copying
+const SITE_ONLY_BIBTEX_FIELDS = ['team'];
+
+// Links and identifiers are used verbatim: cleanLatex() would turn the "~" of a URL into a space
+function bibtexLiteral(value: string | undefined): string | undefined {
+  return value?.replace(/\\url\{(.*)\}/, '$1').replace(/\\([_%&#~$])/g, '$1').replace(/[{}]/g, '').trim() || undefined;
+}
+
+function publicationFromBibtex(entry: BibtexEntry): Record<string, unknown> {
+  const { fields } = entry;
+  const text = (name: string) => (fields[name] === undefined ? undefined : cleanLatex(fields[name]) || undefined);
+  const exported = Object.fromEntries(
+    Object.entries(fields).filter(([name]) => !SITE_ONLY_BIBTEX_FIELDS.includes(name))
+  );
+
+  return {
+    type: entry.type,
+    title: text('title'),
+    authors: fields.author ? parseAuthors(fields.author) : [],
+    year: fields.year ? Number(cleanLatex(fields.year)) : undefined,
+    month: text('month'),
+    venue: text('journal') ?? text('booktitle') ?? text('school') ?? text('institution') ?? text('howpublished'),
+    volume: text('volume'),
+    number: text('number'),
+    pages: text('pages'),
+    publisher: text('publisher'),
+    doi: bibtexLiteral(fields.doi)?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+    url: bibtexLiteral(fields.url),
+    pdf: bibtexLiteral(fields.pdf),
+    code: bibtexLiteral(fields.code),
+    abstract: text('abstract'),
+    teams: fields.team ? cleanLatex(fields.team).split(/[\s,]+/).filter(Boolean) : [],
+    bibtex: formatBibtex({ type: entry.type, key: entry.key, fields: exported }),
+  };
+}
+
+/**
+ * Every .bib file in src/data/publications; the citation key is the entry id. Syntax errors
+ * report file and line, and a key used twice (even across files) fails the build.
+ */
+function publicationsLoader(): Loader {
+  return {
+    name: 'publications-loader',
+    load: async ({ store, parseData, generateDigest, config, watcher }) => {
+      const directoryUrl = new URL(PUBLICATIONS_DIR, config.root);
+
+      const load = async () => {
+        const fileNames = existsSync(directoryUrl)
+          ? (await readdir(directoryUrl)).filter((name) => name.endsWith('.bib')).sort()
+          : [];
+        const seen = new Map<string, string>();
+        store.clear();
+
+        for (const fileName of fileNames) {
+          const relativePath = `${PUBLICATIONS_DIR}${fileName}`;
+          const source = await readFile(new URL(fileName, directoryUrl), 'utf-8');
+
+          for (const entry of parseBibtex(source, relativePath)) {
+            const location = `${relativePath}:${entry.line}`;
+            const previous = seen.get(entry.key);
+            if (previous !== undefined) {
+              throw new Error(`Duplicate citation key "${entry.key}" at ${location} (first used at ${previous})`);
+            }
+            seen.set(entry.key, location);
+
+            const data = await parseData({ id: entry.key, data: publicationFromBibtex(entry) });
+            store.set({ id: entry.key, data, filePath: relativePath, digest: generateDigest(data) });
+          }
+        }
+      };
+
+      await load();
+
+      const directoryPath = fileURLToPath(directoryUrl);
+      watcher?.add(directoryPath);
+      watcher?.on('all', async (_event, changedPath) => {
+        if (changedPath.startsWith(directoryPath) && changedPath.endsWith('.bib')) await load();
+      });
+    },
+  };
+}
+
+// A link is either absolute or a file served from public/ (e.g. "/papers/drift-2025.pdf")
+const publicationLink = z.string().refine(
+  (value) => /^https?:\/\//.test(value) || (value.startsWith('/') && existsSync(join(process.cwd(), 'public', value))),
+  (value) => ({ message: `"${value}" is neither an http(s) URL nor a file in public/` })
+);
+
+const publications = defineCollection({
+  loader: publicationsLoader(),
+  schema: z.object({
+    // Lowercased BibTeX entry type: article, inproceedings, phdthesis, misc, ...
+    type: z.string().min(1),
+    title: z.string().min(1),
+    authors: z
+      .array(z.object({ given: z.string(), family: z.string().min(1) }))
+      .min(1, 'A publication needs an "author" field'),
+    year: z.number().int().min(1900).max(2100),
+    month: z.string().optional(),
+    // journal, booktitle, school, institution or howpublished, whichever the entry has
+    venue: z.string().optional(),
+    volume: z.string().optional(),
+    number: z.string().optional(),
+    pages: z.string().optional(),
+    publisher: z.string().optional(),
+    doi: z.string().regex(/^10\.\d{4,9}\/\S+$/, 'Not a DOI (expected 10.xxxx/...)').optional(),
+    url: z.string().url().optional(),
+    pdf: publicationLink.optional(),
+    code: z.string().url().optional(),
+    abstract: z.string().optional(),
+    // Non-standard "team" field: comma-separated ids from teams.json
+    teams: z.array(teamId).default([]),
+    bibtex: z.string(),
+  }),
+});
+
+// One entry per team per event edition, keyed by an "id" such as "erc-2025-pulsar"
+const competitions = defineCollection({
+  loader: file('src/data/competitions.json'),
+  schema: z
+    .object({
+      event: z.string().min(1),
+      year: z.number().int().min(2000).max(2100),
+      // YYYY-MM-DD; without them the entry is dated by its year alone
+      startDate: z.coerce.date().optional(),
+      endDate: z.coerce.date().optional(),
+      location: z.string().min(1).optional(),
+      // Event website
+      url: z.string().url().optional(),
+      team: teamId,
+      // Final standing as announced, e.g. "2nd place" or "Finalist"
+      placement: z.string().min(1).optional(),
+      awards: z.array(z.string().min(1)).default([]),
+      // Member slugs of the people who competed
+      members: z.array(memberId).default([]),
+      // Photos, videos and articles about the entry
+      media: z
+        .array(
+          z.object({
+            label: z.string().min(1),
+            url: z.string().url(),
+          })
+        )
+        .default([]),
+    })
+    .refine((entry) => !entry.startDate || entry.startDate.getUTCFullYear() === entry.year, {
+      message: '"startDate" is not in "year"',
+      path: ['startDate'],
+    })
+    .refine((entry) => !entry.endDate || (entry.startDate !== undefined && entry.endDate >= entry.startDate), {
+      message: '"endDate" needs a "startDate" on or before it',
+      path: ['endDate'],
+    }),
+});
+
+// Open roles for /join, keyed by an "id" such as "pulsar-2026-perception"
+const openings = defineCollection({
+  loader: file('src/data/openings.json'),
+  schema: z
+    .object({
+      team: teamId,
+      role: z.string().min(1),
+      // What the role involves, in a few sentences
+      description: z.string().min(1),
+      skills: z.array(z.string().min(1)).default([]),
+      // Expected time, e.g. "6-8 hours a week"
+      commitment: z.string().min(1),
+      // YYYY-MM-DD
+      posted: z.coerce.date(),
+      // Last day to apply (YYYY-MM-DD); the role is left out of builds made after that day
+      deadline: z.coerce.date(),
+      // "closed" takes a role down before its deadline, e.g. once it is filled
+      status: z.enum(['open', 'closed']).default('open'),
+      // A translation covers all text fields so a posting never mixes languages
+      translations: z
+        .record(
+          z.enum(LOCALES),
+          z.object({
+            role: z.string().min(1),
+            description: z.string().min(1),
+            commitment: z.string().min(1),
+          })
+        )
+        .default({}),
+    })
+    .refine((opening) => opening.deadline >= opening.posted, {
+      message: '"deadline" is before "posted"',
+      path: ['deadline'],
+    }),
+});
+
+// Markdown or MDX files in src/data/news; the file name (or a "slug" frontmatter field) is the post's URL
+const news = defineCollection({
+  loader: glob({ pattern: '**/*.{md,mdx}', base: NEWS_DIR }),
+  schema: ({ image }) => z
+    .object({
+      title: z.string().min(1),
+      // One or two sentences for cards, the feed and meta tags
+      description: z.string().min(1),
+      date: z.coerce.date(),
+      updated: z.coerce.date().optional(),
+      // Member slugs; a post without authors is credited to Drift Lab
+      authors: z.array(memberId).default([]),
+      teams: z.array(teamId).default([]),
+      tags: z
+        .array(z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Tags are lowercase words joined by "-", e.g. "competition-results"'))
+        .default([]),
+      // Path relative to the post file, optimized at build time
+      cover: image().optional(),
+      coverAlt: z.string().optional(),
+      // Drafts are shown by the dev server and left out of production builds
+      draft: z.boolean().default(false),
+    })
+    .refine((post) => !post.cover || post.coverAlt, {
+      message: 'A cover image needs "coverAlt"',
+      path: ['coverAlt'],
+    }),
+});
+
+// [x, y, z] in the model's own units (glTF uses meters), y up
+const vector3 = z.tuple([z.number(), z.number(), z.number()]);
+
+const vehicleSpec = z.object({
+  label: z.string().min(1),
+  value: z.string().min(1),
+});
+
+// Lowercase words joined by "-"; parts and hotspots are referred to by these ids
+const vehicleItemId = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Ids are lowercase words joined by "-", e.g. "front-lidar"');
+
+function findDuplicate(ids: string[]): string | undefined {
+  return ids.find((id, index) => ids.indexOf(id) !== index);
+}
+
+// Robots shown in the 3D viewer on /fleet and their team page, keyed by an "id" such as "pulsar-rover"
+const vehicles = defineCollection({
+  loader: file('src/data/vehicles.json'),
+  schema: z
+    .object({
+      team: teamId,
+      name: z.string().min(1),
+      // Season or year the vehicle was built for
+      year: z.number().int().min(2000).max(2100).optional(),
+      description: z.string().min(1),
+      // .glb (or .gltf with embedded buffers) in public/models/; Draco-compressed files are not supported
+      model: publicFile(VEHICLE_MODELS_DIR).refine((name) => /\.(glb|gltf)$/i.test(name), {
+        message: 'Models must be .glb or .gltf files',
+      }),
+      // Still image in public/models/, shown until the model loads and when WebGL is unavailable
+      poster: publicFile(VEHICLE_MODELS_DIR).optional(),
+      // Spec table rows, in display order, e.g. { "label": "Mass", "value": "48 kg" }
+      specs: z.array(vehicleSpec).default([]),
+      // Groups of model nodes that can be hidden or pulled apart in the exploded view
+      parts: z
+        .array(
+          z.object({
+            id: vehicleItemId,
+            label: z.string().min(1),
+            // Node names as exported from the 3D tool; children move and hide with their node
+            nodes: z.array(z.string().min(1)).min(1),
+            // Offset of the part in the exploded view
+            explode: vector3.default([0, 0, 0]),
+          })
+        )
+        .default([]),
+      // Labeled points on the model, e.g. sensors; "part" ties the marker to a part so it moves and hides with it
+      hotspots: z
+        .array(
+          z.object({
+            id: vehicleItemId,
+            label: z.string().min(1),
+            description: z.string().min(1).optional(),
+            position: vector3,
+            part: vehicleItemId.optional(),
+          })
+        )
+        .default([]),
+      // Starting camera; without it the camera frames the whole model from the front left
+      camera: z.object({ position: vector3, target: vector3 }).optional(),
+      // A translated "specs" list replaces the English one and must have the same rows;
+      // parts and hotspots are translated by id, e.g. "hotspots": { "front-lidar": { "label": "..." } }
+      translations: translations({
+        name: z.string().min(1),
+        description: z.string().min(1),
+        specs: z.array(vehicleSpec),
+        parts: z.record(vehicleItemId, z.object({ label: z.string().min(1) })),
+        hotspots: z.record(
+          vehicleItemId,
+          z.object({ label: z.string().min(1), description: z.string().min(1) }).partial()
+        ),
+      }),
+    })
+    .superRefine((vehicle, context) => {
+      const partIds = vehicle.parts.map((part) => part.id);
+      const hotspotIds = vehicle.hotspots.map((hotspot) => hotspot.id);
+      const issue = (message: string, path: (string | number)[]) => context.addIssue({ code: 'custom', message, path });
+
+      const duplicatePart = findDuplicate(partIds);
+      if (duplicatePart) issue(`Duplicate part id "${duplicatePart}"`, ['parts']);
+      const duplicateHotspot = findDuplicate(hotspotIds);
+      if (duplicateHotspot) issue(`Duplicate hotspot id "${duplicateHotspot}"`, ['hotspots']);
+
+      vehicle.hotspots.forEach((hotspot, index) => {
+        if (hotspot.part && !partIds.includes(hotspot.part)) {
+          issue(`Unknown part "${hotspot.part}". Parts: ${partIds.join(', ') || 'none'}`, ['hotspots', index, 'part']);
+        }
+      });
+
+      for (const [locale, translation] of Object.entries(vehicle.translations)) {
+        if (translation.specs && translation.specs.length !== vehicle.specs.length) {
+          issue(`Has ${translation.specs.length} specs, the English list has ${vehicle.specs.length}`, ['translations', locale, 'specs']);
+        }
+        for (const id of Object.keys(translation.parts ?? {})) {
+          if (!partIds.includes(id)) issue(`Unknown part "${id}"`, ['translations', locale, 'parts', id]);
+        }
+        for (const id of Object.keys(translation.hotspots ?? {})) {
+          if (!hotspotIds.includes(id)) issue(`Unknown hotspot "${id}"`, ['translations', locale, 'hotspots', id]);
+        }
+      }
+    }),
+});
+
+// Sponsors and partner institutions, keyed by an "id" such as "campus"
+const partners = defineCollection({
+  loader: file('src/data/partners.json'),
+  schema: z
+    .object({
+      name: z.string().min(1),
+      // Image in public/images/partners/; SVG or a PNG with a transparent background works on both themes
+      logo: publicFile(PARTNER_LOGOS_DIR),
+      // Crops the logo to a circle, for round logos on a square background
+      roundLogo: z.boolean().default(false),
+      url: z.string().url().optional(),
+      tier: z.enum(PARTNER_TIERS),
+      // Teams the partner sponsors; empty for the whole lab
+      teams: z.array(teamId).default([]),
+      // Sponsorship period (YYYY-MM-DD, both days included); outside it the partner is left out of the build
+      since: z.coerce.date().optional(),
+      until: z.coerce.date().optional(),
+      translations: translations({
+        name: z.string().min(1),
+      }),
+    })
+    .refine((partner) => !partner.since || !partner.until || partner.until >= partner.since, {
+      message: '"until" is before "since"',
+      path: ['until'],
+    }),
+});
+
+export const collections = { teams, members, publications, news, competitions, openings, vehicles, partners };
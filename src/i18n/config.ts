@@ -0,0 +1,25 @@
+// Site languages. English is served unprefixed (/contact/), every other locale under its code (/ro/contact/)
+export const LOCALES = ['en', 'ro'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+interface LocaleInfo {
+  // Name of the language in that language, for the switcher
+  name: string;
+  // <html lang> and hreflang
+  htmlLang: string;
+  ogLocale: string;
+  // Intl locale for dates and sorting
+  intlLocale: string;
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', htmlLang: 'en', ogLocale: 'en_US', intlLocale: 'en-GB' },
+  ro: { name: 'Română', htmlLang: 'ro', ogLocale: 'ro_RO', intlLocale: 'ro-RO' },
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
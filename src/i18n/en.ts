@@ -0,0 +1,284 @@
+import { plural } from './format';
+
+// Reference dictionary: every other language must define the same keys (checked in ./index.ts)
+// Placeholders in braces are filled by formatMessage()/formatPlural()
+export const en = {
+  meta: {
+    siteDescription: 'Drift Lab - Pioneering the next generation of self-driving technology through student-led innovation at CAMPUS Research Institute, Politehnica University of Bucharest.',
+    organizationDescription: 'Autonomous Vehicles Research Laboratory at CAMPUS Research Institute',
+    keywords: 'autonomous vehicles, self-driving cars, robotics, research, CAMPUS, Politehnica Bucharest, AI, machine learning, autonomous systems',
+  },
+  common: {
+    team: 'Team',
+    allTeams: 'All teams',
+    clearFilters: 'Clear filters',
+    tags: 'Tags',
+    present: 'present',
+  },
+  nav: {
+    home: 'Home',
+    teams: 'Teams',
+    members: 'Members',
+    research: 'Research',
+    news: 'News',
+    contact: 'Contact',
+    cta: 'Contact Us',
+    toggleMenu: 'Toggle menu',
+    logoAlt: 'Drift Lab - Autonomous Vehicles Research Laboratory',
+    language: 'Language',
+    darkTheme: 'Dark theme',
+    join: 'Join Us',
+    fleet: 'Fleet',
+    partners: 'Partners',
+    alumni: 'Alumni',
+  },
+  footer: {
+    tagline: 'Autonomous Vehicles Research at CAMPUS Institute',
+    credit: 'Created with love by Drift Lab members',
+    social: 'Social media',
+    socialLink: '{site} on {network}',
+  },
+  home: {
+    title: 'Home',
+    projectName: 'Drift Lab - Autonomous Vehicles Research',
+    projectDescription: 'Pioneering the next generation of self-driving technology through student-led innovation at CAMPUS Research Institute',
+  },
+  hero: {
+    titleLead: 'Autonomous',
+    titleHighlight: 'Intelligence',
+    subtitle: 'Pioneering the next generation of self-driving technology through student-led innovation at CAMPUS Research Institute.',
+    teamsCta: 'Teams',
+    contactCta: 'Contact',
+    joinCta: plural({ one: "We're recruiting: {count} open role", other: "We're recruiting: {count} open roles" }),
+    logoAlt: 'Drift Lab Logo - Autonomous Vehicles Research',
+    supportedBy: 'Supported by:',
+    pauseAnimation: 'Pause background animation',
+    playAnimation: 'Play background animation',
+  },
+  teams: {
+    title: 'Our Teams',
+    description: 'Specialized student teams pushing the boundaries of autonomous vehicle technology.',
+    back: 'Back to teams',
+    members: 'Members',
+    noMembers: 'No members listed yet.',
+    competitions: 'Competitions',
+    gallery: 'Gallery',
+    logoAlt: '{team} logo',
+    metaDescription: '{team} at Drift Lab - {description}',
+    website: 'Website',
+    join: 'Join {team}',
+    vehicles: 'Vehicles',
+    partners: 'Partners',
+  },
+  competitions: {
+    title: 'Competitions & Results',
+    description: 'Where our teams have competed, how they placed and who was on the field.',
+    filtersLabel: 'Filter competitions',
+    resultsOnly: 'Placements and awards only',
+    awards: 'Awards',
+    teamMembers: 'Team members:',
+    noResults: 'No competitions match these filters.',
+    participant: 'participant',
+  },
+  members: {
+    title: 'Our Members',
+    description: 'Meet the talented individuals driving innovation in our laboratory.',
+    filtersLabel: 'Filter members',
+    all: 'All',
+    search: 'Search members',
+    searchPlaceholder: 'Search by name, role or skill',
+    sort: 'Sort',
+    sortFeatured: 'Featured',
+    sortName: 'Name (A-Z)',
+    sortNameDesc: 'Name (Z-A)',
+    sortTeam: 'Team',
+    count: plural({ one: '{count} member', other: '{count} members' }),
+    countFiltered: plural({ one: 'Showing {visible} of {count} member', other: 'Showing {visible} of {count} members' }),
+    empty: 'No members match your search.',
+    supervisors: 'Laboratory Supervisors',
+    teamMembers: 'Team Members',
+    photoAlt: '{name} - {roles} at {teams}',
+    viewProfile: 'View profile',
+    viewFullProfile: 'View full profile',
+    close: 'Close',
+    previous: 'Previous member',
+    next: 'Next member',
+  },
+  profile: {
+    back: 'Back to members',
+    about: 'About',
+    projects: 'Projects',
+    alumni: 'Alumni',
+    backToAlumni: 'Back to alumni',
+    history: 'In the lab',
+    nextStep: 'Now',
+    email: 'Email',
+    website: 'Website',
+  },
+  alumni: {
+    title: 'Alumni',
+    metaDescription: 'Former Drift Lab members by academic year - their roles in our autonomous vehicle teams and where they went next.',
+    subtitle: 'The students who built our vehicles before us, grouped by the academic year they left: their roles in the lab and where they went next.',
+    yearsLabel: 'Academic years',
+    cohort: 'Class of {year}',
+    undated: 'Earlier alumni',
+    count: plural({ one: '{count} alumnus', other: '{count} alumni' }),
+    empty: 'No alumni listed yet.',
+  },
+  labStats: {
+    title: 'Lab in Numbers',
+    activeMembers: 'Current members',
+    alumni: 'Alumni',
+    teams: 'Teams',
+    since: 'Active since',
+    perYear: 'Members per academic year',
+    perTeam: 'Members per team this year',
+    alumniLink: 'Meet our alumni',
+  },
+  news: {
+    title: 'News',
+    metaDescription: 'News from Drift Lab - competition results, workshop recaps and hardware milestones from the autonomous vehicle teams at CAMPUS Research Institute, Politehnica University of Bucharest.',
+    subtitle: 'Competition results, workshop recaps and hardware milestones.',
+    latest: 'Latest News',
+    latestDescription: 'Competition results, workshop recaps and hardware milestones from our teams.',
+    allNews: 'All news',
+    feed: 'RSS feed',
+    empty: 'No posts yet.',
+    filtersLabel: 'Filter posts',
+    tag: 'Tag',
+    allTags: 'All tags',
+    count: plural({ one: '{count} post', other: '{count} posts' }),
+    countFiltered: plural({ one: 'Showing {visible} of {count} post', other: 'Showing {visible} of {count} posts' }),
+    noResults: 'No posts match these filters.',
+    readingTime: plural({ one: '{count} min read', other: '{count} min read' }),
+    byline: 'By {authors}',
+    updated: 'Updated {date}',
+    authors: 'Authors',
+    teams: 'Teams',
+  },
+  research: {
+    title: 'Research',
+    metaDescription: 'Publications from Drift Lab - papers, theses and reports on autonomous vehicles from the student teams at CAMPUS Research Institute, Politehnica University of Bucharest.',
+    subtitle: 'Papers, theses and reports by Drift Lab members and teams.',
+    empty: 'No publications listed yet.',
+    filtersLabel: 'Filter publications',
+    author: 'Author',
+    allAuthors: 'All authors',
+    count: plural({ one: '{count} publication', other: '{count} publications' }),
+    countFiltered: plural({ one: 'Showing {visible} of {count} publication', other: 'Showing {visible} of {count} publications' }),
+    noResults: 'No publications match these filters.',
+    groups: {
+      articles: 'Journal articles',
+      conference: 'Conference papers',
+      books: 'Books and chapters',
+      theses: 'Theses',
+      other: 'Other',
+    },
+    code: 'Code',
+    web: 'Web',
+    abstract: 'Abstract',
+    cite: 'Cite',
+    copy: 'Copy',
+    copied: 'Copied',
+    copyFallback: 'Press Ctrl+C',
+  },
+  join: {
+    title: 'Join Us',
+    metaDescription: 'Open roles at Drift Lab - join a student team building autonomous vehicles at CAMPUS Research Institute, Politehnica University of Bucharest.',
+    subtitle: 'Our teams recruit students who want to build autonomous vehicles. Pick a role and apply before its deadline.',
+    count: plural({ one: '{count} open role', other: '{count} open roles' }),
+    skills: 'Skills we are looking for',
+    commitment: 'Commitment',
+    deadline: 'Apply by',
+    posted: 'Posted {date}',
+    apply: 'Apply',
+    applyFor: 'Apply for {role} at {team}',
+    empty: 'No open roles right now.',
+    emptyHint: 'Teams recruit at the start of each semester and announce new roles here and in our news. You can still write to us about joining a team.',
+    emptyCta: 'Write to us',
+  },
+  fleet: {
+    title: 'Fleet',
+    metaDescription: 'The autonomous vehicles built by Drift Lab teams at CAMPUS Research Institute - explore them in 3D, part by part.',
+    subtitle: 'The vehicles our teams design, build and race. Drag to orbit, scroll or pinch to zoom and take them apart.',
+    empty: 'No vehicles to show yet.',
+    emptyHint: 'Our teams will add 3D models of their vehicles here as they finish them.',
+  },
+  vehicleViewer: {
+    label: '3D model of {vehicle}',
+    hint: 'Drag to orbit, scroll or pinch to zoom.',
+    loading: 'Loading 3D model...',
+    loadError: 'The 3D model could not be loaded.',
+    noWebgl: 'Your browser cannot show 3D models.',
+    explode: 'Exploded view',
+    parts: 'Components',
+    reset: 'Reset view',
+    hotspots: 'Points of interest',
+    specs: 'Specifications',
+  },
+  partners: {
+    title: 'Partners',
+    metaDescription: 'The institutions and sponsors that support Drift Lab and its autonomous vehicle teams at CAMPUS Research Institute, Politehnica University of Bucharest.',
+    subtitle: 'The institutions and companies that make our research and competitions possible.',
+    tiers: {
+      host: 'Host institutions',
+      gold: 'Gold sponsors',
+      silver: 'Silver sponsors',
+      bronze: 'Bronze sponsors',
+      partner: 'Partners',
+    },
+    labWide: 'Whole lab',
+    website: '{partner} website',
+    empty: 'No partners to show yet.',
+    cta: 'Interested in supporting our teams?',
+    ctaLink: 'Get in touch',
+  },
+  contact: {
+    title: 'Contact Us',
+    metaDescription: 'Get in touch with Drift Lab - Autonomous Vehicles Research at CAMPUS Research Institute. Interested in autonomous vehicles research or joining one of our teams?',
+    pageName: 'Contact Drift Lab',
+    pageDescription: 'Get in touch with Drift Lab - Autonomous Vehicles Research at CAMPUS Research Institute',
+    heading: 'Get in Touch',
+    subtitle: 'Interested in autonomous vehicles research or joining one of our teams?',
+    location: 'Location',
+    institute: 'CAMPUS Research Institute',
+    room: 'Room 515',
+    university: 'Politehnica University of Bucharest',
+    viewMap: 'View Map',
+    teamContacts: 'Team Contacts',
+  },
+  contactForm: {
+    title: 'Send us a message',
+    description: 'Questions about our research, or want to join a team? Tell us about yourself and we will reply by email.',
+    required: 'required',
+    name: 'Name',
+    email: 'Email',
+    faculty: 'Faculty and year',
+    facultyHint: 'e.g. Automatic Control and Computers, 2nd year',
+    team: 'Team of interest',
+    noTeam: 'No particular team',
+    message: 'Message',
+    cv: 'CV or portfolio link',
+    cvHint: 'A link to a PDF, LinkedIn or GitHub profile',
+    honeypot: 'Leave this field empty',
+    submit: 'Send message',
+    submitMailto: 'Write in your email app',
+    mailtoNote: 'Sending opens your email app with the message filled in.',
+    sending: 'Sending...',
+    errors: {
+      required: 'Fill in this field.',
+      tooLong: 'Use at most {max} characters.',
+      email: 'Enter an email address like name@example.com.',
+      url: 'Enter a full link starting with https://.',
+      team: 'Choose a team from the list.',
+    },
+    invalid: plural({ one: 'Check the highlighted field.', other: 'Check the {count} highlighted fields.' }),
+    tooFast: 'That was quick! Check your message and send it again.',
+    sent: 'Thank you! Your message has been sent and we will reply by email.',
+    opened: 'Your email app should open with the message filled in; send it from there. If nothing opened, write to {email}.',
+    failed: 'Your message could not be sent. Try again later or write to {email}.',
+    subject: 'Message from {name}',
+    applicationSubject: 'Application to {team} from {name}',
+    roleMessage: 'I would like to apply for the {role} role.',
+  },
+};
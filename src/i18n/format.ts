@@ -0,0 +1,27 @@
+/**
+ * Message formatting shared by pages and client scripts, so it must not import anything from Astro.
+ * Messages are plain data (strings and plural sets) and can be serialized into data-* attributes.
+ */
+
+// One message per plural category of the language; "other" is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+type Values = Record<string, string | number>;
+
+// Marks a dictionary entry as a plural set, so other languages may add the categories they need
+export function plural(message: PluralMessage): PluralMessage {
+  return message;
+}
+
+// "Showing {visible} of {total}" → "Showing 3 of 12"; unknown placeholders are left as they are
+export function formatMessage(message: string, values: Values = {}): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+// Picks the plural form for count ("1 membru", "3 membri", "20 de membri"); count is also available as {count}
+export function formatPlural(message: PluralMessage, count: number, intlLocale: string, values: Values = {}): string {
+  const category = new Intl.PluralRules(intlLocale).select(count);
+  return formatMessage(message[category] ?? message.other, { count, ...values });
+}
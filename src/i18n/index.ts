@@ -0,0 +1,57 @@
+import { DEFAULT_LOCALE, LOCALES, isLocale, type Locale } from './config';
+import { en } from './en';
+import { ro } from './ro';
+
+export { DEFAULT_LOCALE, LOCALES, LOCALE_INFO, isLocale, type Locale } from './config';
+export { formatMessage, formatPlural, type PluralMessage } from './format';
+
+export type Dictionary = typeof en;
+
+const dictionaries: Record<Locale, Dictionary> = { en, ro };
+
+// Leaf paths of the reference dictionary that a translation lacks; a plural set only needs "other"
+function findMissingKeys(reference: object, translation: unknown, path = ''): string[] {
+  if (typeof translation !== 'object' || translation === null) return [path];
+  if ('other' in reference) return typeof (translation as { other?: unknown }).other === 'string' ? [] : [path];
+
+  return Object.entries(reference).flatMap(([key, value]) => {
+    const keyPath = path ? `${path}.${key}` : key;
+    const translated = (translation as Record<string, unknown>)[key];
+    if (typeof value === 'string') return typeof translated === 'string' && translated ? [] : [keyPath];
+    return findMissingKeys(value, translated, keyPath);
+  });
+}
+
+// Type checking already catches this; the check here also fails `astro build`, which does not type-check
+for (const locale of LOCALES) {
+  const missing = findMissingKeys(en, dictionaries[locale]);
+  if (missing.length > 0) {
+    throw new Error(`Missing translations in src/i18n/${locale}.ts: ${missing.join(', ')}`);
+  }
+}
+
+export function getDictionary(locale: Locale): Dictionary {
+  return dictionaries[locale];
+}
+
+// Astro.currentLocale is undefined outside localized routes (e.g. /news/rss.xml)
+export function resolveLocale(value: string | undefined): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+// Site path in a locale: "/contact" → "/ro/contact", "/#teams" → "/ro/#teams"
+export function localizePath(path: string, locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? path : `/${locale}${path}`;
+}
+
+// Inverse of localizePath(): "/ro/members/x/" → "/members/x/"
+export function delocalizePath(pathname: string): string {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isLocale(first) || first === DEFAULT_LOCALE) return pathname;
+  return `/${rest.join('/')}`;
+}
+
+// getStaticPaths() params for the [...lang] segment: English unprefixed, other locales by code
+export function getLocaleParams(): { lang: string | undefined }[] {
+  return LOCALES.map((locale) => ({ lang: locale === DEFAULT_LOCALE ? undefined : locale }));
+}
@@ -0,0 +1,308 @@
+import { plural } from './format';
+import type { Dictionary } from './index';
+
+// Romanian plurals: one (1), few (0, 2-19, and numbers ending in 01-19) and other, which takes "de" (20 de membri)
+export const ro: Dictionary = {
+  meta: {
+    siteDescription: 'Drift Lab - Dezvoltăm următoarea generație de tehnologie pentru vehicule autonome prin inovație condusă de studenți la Institutul de Cercetare CAMPUS, Universitatea Politehnica din București.',
+    organizationDescription: 'Laborator de cercetare în domeniul vehiculelor autonome la Institutul de Cercetare CAMPUS',
+    keywords: 'vehicule autonome, mașini autonome, robotică, cercetare, CAMPUS, Politehnica București, inteligență artificială, învățare automată, sisteme autonome',
+  },
+  common: {
+    team: 'Echipă',
+    allTeams: 'Toate echipele',
+    clearFilters: 'Șterge filtrele',
+    tags: 'Etichete',
+    present: 'prezent',
+  },
+  nav: {
+    home: 'Acasă',
+    teams: 'Echipe',
+    members: 'Membri',
+    research: 'Cercetare',
+    news: 'Noutăți',
+    contact: 'Contact',
+    cta: 'Contactează-ne',
+    toggleMenu: 'Deschide sau închide meniul',
+    logoAlt: 'Drift Lab - Laborator de cercetare în domeniul vehiculelor autonome',
+    language: 'Limbă',
+    darkTheme: 'Temă întunecată',
+    join: 'Alătură-te',
+    fleet: 'Flotă',
+    partners: 'Parteneri',
+    alumni: 'Alumni',
+  },
+  footer: {
+    tagline: 'Cercetare în domeniul vehiculelor autonome la Institutul CAMPUS',
+    credit: 'Creat cu drag de membrii Drift Lab',
+    social: 'Rețele sociale',
+    socialLink: '{site} pe {network}',
+  },
+  home: {
+    title: 'Acasă',
+    projectName: 'Drift Lab - Cercetare în domeniul vehiculelor autonome',
+    projectDescription: 'Dezvoltăm următoarea generație de tehnologie pentru vehicule autonome prin inovație condusă de studenți la Institutul de Cercetare CAMPUS',
+  },
+  hero: {
+    titleLead: 'Inteligență',
+    titleHighlight: 'Autonomă',
+    subtitle: 'Dezvoltăm următoarea generație de tehnologie pentru vehicule autonome prin inovație condusă de studenți la Institutul de Cercetare CAMPUS.',
+    teamsCta: 'Echipe',
+    contactCta: 'Contact',
+    joinCta: plural({
+      one: 'Recrutăm: {count} rol deschis',
+      few: 'Recrutăm: {count} roluri deschise',
+      other: 'Recrutăm: {count} de roluri deschise',
+    }),
+    logoAlt: 'Sigla Drift Lab - Cercetare în domeniul vehiculelor autonome',
+    supportedBy: 'Cu sprijinul:',
+    pauseAnimation: 'Oprește animația de fundal',
+    playAnimation: 'Pornește animația de fundal',
+  },
+  teams: {
+    title: 'Echipele noastre',
+    description: 'Echipe studențești specializate care împing limitele tehnologiei vehiculelor autonome.',
+    back: 'Înapoi la echipe',
+    members: 'Membri',
+    noMembers: 'Niciun membru listat încă.',
+    competitions: 'Competiții',
+    gallery: 'Galerie',
+    logoAlt: 'Sigla {team}',
+    metaDescription: '{team} la Drift Lab - {description}',
+    website: 'Site web',
+    join: 'Alătură-te echipei {team}',
+    vehicles: 'Vehicule',
+    partners: 'Parteneri',
+  },
+  competitions: {
+    title: 'Competiții și rezultate',
+    description: 'Unde au concurat echipele noastre, ce locuri au obținut și cine a fost pe teren.',
+    filtersLabel: 'Filtrează competițiile',
+    resultsOnly: 'Doar clasări și premii',
+    awards: 'Premii',
+    teamMembers: 'Membrii echipei:',
+    noResults: 'Nicio competiție nu corespunde acestor filtre.',
+    participant: 'participant',
+  },
+  members: {
+    title: 'Membrii noștri',
+    description: 'Cunoaște oamenii talentați care conduc inovația în laboratorul nostru.',
+    filtersLabel: 'Filtrează membrii',
+    all: 'Toți',
+    search: 'Caută membri',
+    searchPlaceholder: 'Caută după nume, rol sau competență',
+    sort: 'Sortare',
+    sortFeatured: 'Recomandați',
+    sortName: 'Nume (A-Z)',
+    sortNameDesc: 'Nume (Z-A)',
+    sortTeam: 'Echipă',
+    count: plural({ one: '{count} membru', few: '{count} membri', other: '{count} de membri' }),
+    countFiltered: plural({
+      one: 'Se afișează {visible} din {count} membru',
+      few: 'Se afișează {visible} din {count} membri',
+      other: 'Se afișează {visible} din {count} de membri',
+    }),
+    empty: 'Niciun membru nu corespunde căutării.',
+    supervisors: 'Coordonatorii laboratorului',
+    teamMembers: 'Membrii echipelor',
+    photoAlt: '{name} - {roles} la {teams}',
+    viewProfile: 'Vezi profilul',
+    viewFullProfile: 'Vezi profilul complet',
+    close: 'Închide',
+    previous: 'Membrul anterior',
+    next: 'Membrul următor',
+  },
+  profile: {
+    back: 'Înapoi la membri',
+    about: 'Despre',
+    projects: 'Proiecte',
+    alumni: 'Alumni',
+    backToAlumni: 'Înapoi la alumni',
+    history: 'În laborator',
+    nextStep: 'Acum',
+    email: 'Email',
+    website: 'Site web',
+  },
+  alumni: {
+    title: 'Alumni',
+    metaDescription: 'Foștii membri Drift Lab pe ani universitari - rolurile lor în echipele de vehicule autonome și unde au ajuns după aceea.',
+    subtitle: 'Studenții care au construit vehiculele înaintea noastră, grupați după anul universitar în care au plecat: rolurile lor în laborator și unde au ajuns după aceea.',
+    yearsLabel: 'Ani universitari',
+    cohort: 'Promoția {year}',
+    undated: 'Alumni mai vechi',
+    count: plural({ one: '{count} fost membru', few: '{count} foști membri', other: '{count} de foști membri' }),
+    empty: 'Încă nu avem alumni.',
+  },
+  labStats: {
+    title: 'Laboratorul în cifre',
+    activeMembers: 'Membri actuali',
+    alumni: 'Alumni',
+    teams: 'Echipe',
+    since: 'Activ din',
+    perYear: 'Membri pe an universitar',
+    perTeam: 'Membri pe echipă în acest an',
+    alumniLink: 'Cunoaște-i pe alumni',
+  },
+  news: {
+    title: 'Noutăți',
+    metaDescription: 'Noutăți de la Drift Lab - rezultate din competiții, recapitulări ale atelierelor și progrese hardware ale echipelor de vehicule autonome de la Institutul de Cercetare CAMPUS, Universitatea Politehnica din București.',
+    subtitle: 'Rezultate din competiții, recapitulări ale atelierelor și progrese hardware.',
+    latest: 'Ultimele noutăți',
+    latestDescription: 'Rezultate din competiții, recapitulări ale atelierelor și progrese hardware ale echipelor noastre.',
+    allNews: 'Toate noutățile',
+    feed: 'Flux RSS',
+    empty: 'Nicio postare încă.',
+    filtersLabel: 'Filtrează postările',
+    tag: 'Etichetă',
+    allTags: 'Toate etichetele',
+    count: plural({ one: '{count} postare', few: '{count} postări', other: '{count} de postări' }),
+    countFiltered: plural({
+      one: 'Se afișează {visible} din {count} postare',
+      few: 'Se afișează {visible} din {count} postări',
+      other: 'Se afișează {visible} din {count} de postări',
+    }),
+    noResults: 'Nicio postare nu corespunde acestor filtre.',
+    readingTime: plural({
+      one: '{count} minut de lectură',
+      few: '{count} minute de lectură',
+      other: '{count} de minute de lectură',
+    }),
+    byline: 'De {authors}',
+    updated: 'Actualizat pe {date}',
+    authors: 'Autori',
+    teams: 'Echipe',
+  },
+  research: {
+    title: 'Cercetare',
+    metaDescription: 'Publicațiile Drift Lab - articole, teze și rapoarte despre vehicule autonome ale echipelor studențești de la Institutul de Cercetare CAMPUS, Universitatea Politehnica din București.',
+    subtitle: 'Articole, teze și rapoarte ale membrilor și echipelor Drift Lab.',
+    empty: 'Nicio publicație listată încă.',
+    filtersLabel: 'Filtrează publicațiile',
+    author: 'Autor',
+    allAuthors: 'Toți autorii',
+    count: plural({ one: '{count} publicație', few: '{count} publicații', other: '{count} de publicații' }),
+    countFiltered: plural({
+      one: 'Se afișează {visible} din {count} publicație',
+      few: 'Se afișează {visible} din {count} publicații',
+      other: 'Se afișează {visible} din {count} de publicații',
+    }),
+    noResults: 'Nicio publicație nu corespunde acestor filtre.',
+    groups: {
+      articles: 'Articole în reviste',
+      conference: 'Lucrări la conferințe',
+      books: 'Cărți și capitole',
+      theses: 'Teze',
+      other: 'Altele',
+    },
+    code: 'Cod',
+    web: 'Web',
+    abstract: 'Rezumat',
+    cite: 'Citează',
+    copy: 'Copiază',
+    copied: 'Copiat',
+    copyFallback: 'Apasă Ctrl+C',
+  },
+  join: {
+    title: 'Alătură-te',
+    metaDescription: 'Roluri deschise la Drift Lab - intră într-o echipă de studenți care construiește vehicule autonome la Institutul de Cercetare CAMPUS, Universitatea Politehnica din București.',
+    subtitle: 'Echipele noastre recrutează studenți care vor să construiască vehicule autonome. Alege un rol și aplică înainte de termen.',
+    count: plural({ one: '{count} rol deschis', few: '{count} roluri deschise', other: '{count} de roluri deschise' }),
+    skills: 'Ce căutăm',
+    commitment: 'Timp necesar',
+    deadline: 'Aplică până pe',
+    posted: 'Publicat pe {date}',
+    apply: 'Aplică',
+    applyFor: 'Aplică pentru {role} la {team}',
+    empty: 'Nu avem roluri deschise acum.',
+    emptyHint: 'Echipele recrutează la începutul fiecărui semestru și anunță rolurile noi aici și în noutăți. Ne poți scrie oricând dacă vrei să intri într-o echipă.',
+    emptyCta: 'Scrie-ne',
+  },
+  fleet: {
+    title: 'Flotă',
+    metaDescription: 'Vehiculele autonome construite de echipele Drift Lab la Institutul de Cercetare CAMPUS - explorează-le în 3D, piesă cu piesă.',
+    subtitle: 'Vehiculele pe care echipele noastre le proiectează, le construiesc și le duc în competiții. Trage pentru a le roti, derulează sau apropie degetele pentru zoom și desfă-le în componente.',
+    empty: 'Încă nu avem vehicule de prezentat.',
+    emptyHint: 'Echipele noastre vor adăuga aici modelele 3D ale vehiculelor pe măsură ce le finalizează.',
+  },
+  vehicleViewer: {
+    label: 'Model 3D al vehiculului {vehicle}',
+    hint: 'Trage pentru a roti, derulează sau apropie degetele pentru zoom.',
+    loading: 'Se încarcă modelul 3D...',
+    loadError: 'Modelul 3D nu a putut fi încărcat.',
+    noWebgl: 'Browserul tău nu poate afișa modele 3D.',
+    explode: 'Vedere explodată',
+    parts: 'Componente',
+    reset: 'Resetează vederea',
+    hotspots: 'Puncte de interes',
+    specs: 'Specificații',
+  },
+  partners: {
+    title: 'Parteneri',
+    metaDescription: 'Instituțiile și sponsorii care susțin Drift Lab și echipele sale de vehicule autonome de la Institutul de Cercetare CAMPUS, Universitatea Politehnica din București.',
+    subtitle: 'Instituțiile și companiile care fac posibile cercetarea și competițiile noastre.',
+    tiers: {
+      host: 'Instituții gazdă',
+      gold: 'Sponsori Gold',
+      silver: 'Sponsori Silver',
+      bronze: 'Sponsori Bronze',
+      partner: 'Parteneri',
+    },
+    labWide: 'Întregul laborator',
+    website: 'Site-ul {partner}',
+    empty: 'Încă nu avem parteneri de prezentat.',
+    cta: 'Vrei să susții echipele noastre?',
+    ctaLink: 'Contactează-ne',
+  },
+  contact: {
+    title: 'Contact',
+    metaDescription: 'Contactează Drift Lab - cercetare în domeniul vehiculelor autonome la Institutul de Cercetare CAMPUS. Te interesează cercetarea în vehicule autonome sau vrei să te alături uneia dintre echipele noastre?',
+    pageName: 'Contact Drift Lab',
+    pageDescription: 'Contactează Drift Lab - cercetare în domeniul vehiculelor autonome la Institutul de Cercetare CAMPUS',
+    heading: 'Contactează-ne',
+    subtitle: 'Te interesează cercetarea în vehicule autonome sau vrei să te alături uneia dintre echipele noastre?',
+    location: 'Locație',
+    institute: 'Institutul de Cercetare CAMPUS',
+    room: 'Sala 515',
+    university: 'Universitatea Politehnica din București',
+    viewMap: 'Vezi harta',
+    teamContacts: 'Contacte',
+  },
+  contactForm: {
+    title: 'Trimite-ne un mesaj',
+    description: 'Ai întrebări despre cercetarea noastră sau vrei să te alături unei echipe? Spune-ne câteva lucruri despre tine și îți răspundem pe email.',
+    required: 'obligatoriu',
+    name: 'Nume',
+    email: 'Email',
+    faculty: 'Facultatea și anul',
+    facultyHint: 'de ex. Automatică și Calculatoare, anul II',
+    team: 'Echipa care te interesează',
+    noTeam: 'Nicio echipă anume',
+    message: 'Mesaj',
+    cv: 'Link către CV sau portofoliu',
+    cvHint: 'Un link către un PDF sau către profilul LinkedIn ori GitHub',
+    honeypot: 'Lasă acest câmp gol',
+    submit: 'Trimite mesajul',
+    submitMailto: 'Scrie din aplicația de email',
+    mailtoNote: 'La trimitere se deschide aplicația ta de email cu mesajul completat.',
+    sending: 'Se trimite...',
+    errors: {
+      required: 'Completează acest câmp.',
+      tooLong: 'Folosește cel mult {max} de caractere.',
+      email: 'Introdu o adresă de email de forma nume@exemplu.ro.',
+      url: 'Introdu un link complet, care începe cu https://.',
+      team: 'Alege o echipă din listă.',
+    },
+    invalid: plural({
+      one: 'Verifică câmpul marcat.',
+      few: 'Verifică cele {count} câmpuri marcate.',
+      other: 'Verifică cele {count} de câmpuri marcate.',
+    }),
+    tooFast: 'Ai fost foarte rapid! Verifică mesajul și trimite-l din nou.',
+    sent: 'Mulțumim! Mesajul tău a fost trimis și îți vom răspunde pe email.',
+    opened: 'Aplicația ta de email ar trebui să se deschidă cu mesajul completat; trimite-l de acolo. Dacă nu s-a deschis nimic, scrie-ne la {email}.',
+    failed: 'Mesajul nu a putut fi trimis. Încearcă din nou mai târziu sau scrie-ne la {email}.',
+    subject: 'Mesaj de la {name}',
+    applicationSubject: 'Aplicație pentru {team} de la {name}',
+    roleMessage: 'Aș vrea să aplic pentru rolul de {role}.',
+  },
+};
@@ -0,0 +1,96 @@
+import type { IncomingMessage } from 'node:http';
+import type { AstroIntegration } from 'astro';
+import teamsData from '../data/teams.json';
+import {
+  hasContactErrors,
+  isLikelySpam,
+  readContactSubmission,
+  validateContactSubmission,
+} from '../utils/contact';
+
+export const MOCK_CONTACT_PATH = '/__mock/contact';
+
+const TEAM_IDS = (teamsData as { id: string }[]).map((team) => team.id);
+
+// JSON.parse gives back anything; only plain objects can be a form payload
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Stand-in for the contact form endpoint during `npm run dev`, answering like a real one should:
+ * 200 when accepted, 422 with field errors, and a silent 200 for submissions that look like spam.
+ * Use it with PUBLIC_CONTACT_ENDPOINT=http://localhost:4321/__mock/contact npm run dev
+ * Add ?status=500 to the endpoint URL to try the form's error state.
+ */
+export default function mockContactEndpoint(): AstroIntegration {
+  return {
+    name: 'driftlab:mock-contact-endpoint',
+    hooks: {
+      'astro:server:setup': ({ server, logger }) => {
+        server.middlewares.use(MOCK_CONTACT_PATH, async (request, response) => {
+          const send = (status: number, body: object) => {
+            response.statusCode = status;
+            response.setHeader('Content-Type', 'application/json');
+            response.end(JSON.stringify(body));
+          };
+
+          if (request.method !== 'POST') {
+            send(405, { error: 'Method not allowed' });
+            return;
+          }
+
+          const forcedStatus = Number(new URL(request.url ?? '/', 'http://localhost').searchParams.get('status'));
+          if (forcedStatus >= 400) {
+            send(forcedStatus, { error: 'Forced error' });
+            return;
+          }
+
+          let payload: Record<string, unknown>;
+          try {
+            const body: unknown = JSON.parse(await readBody(request));
+            if (!isJsonObject(body)) throw new TypeError('Not an object');
+            payload = body;
+          } catch {
+            send(400, { error: 'Body must be a JSON object' });
+            return;
+          }
+
+          // A missing or malformed elapsedMs counts as sent too fast
+          const spamChecks = {
+            website: typeof payload.website === 'string' ? payload.website : '',
+            elapsedMs: typeof payload.elapsedMs === 'number' ? payload.elapsedMs : 0,
+          };
+          if (isLikelySpam(spamChecks)) {
+            logger.warn('Dropped a submission that looks like spam');
+            send(200, { ok: true });
+            return;
+          }
+
+          const submission = readContactSubmission(payload);
+          const errors = validateContactSubmission(submission, TEAM_IDS);
+          if (hasContactErrors(errors)) {
+            logger.warn(`Rejected submission: ${JSON.stringify(errors)}`);
+            send(422, { errors });
+            return;
+          }
+
+          logger.info(`Received message:\n${JSON.stringify({ ...submission, locale: payload.locale, page: payload.page }, null, 2)}`);
+          send(200, { ok: true });
+        });
+      },
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import rss from '@astrojs/rss';
+import type { APIRoute } from 'astro';
+import { SITE } from '../../config/site';
+import { formatPostAuthors, getPostUrl, getPosts } from '../../utils/news';
+
+// Served at NEWS_FEED_URL (/news/rss.xml); keep the path stable, feed readers are subscribed to it
+export const GET: APIRoute = async ({ site }) => {
+  const posts = await getPosts();
+
+  return rss({
+    title: `${SITE.name} News`,
+    description: `Competition results, workshop recaps and hardware milestones from ${SITE.name}.`,
+    site: site ?? SITE.url,
+    items: posts.map((post) => ({
+      title: post.title,
+      description: post.description,
+      link: getPostUrl(post),
+      pubDate: post.date,
+      categories: post.tags,
+      // RSS <author> must be an email address, so names go in dc:creator
+      customData: `<dc:creator><![CDATA[${formatPostAuthors(post)}]]></dc:creator>`,
+    })),
+    xmlns: { dc: 'http://purl.org/dc/elements/1.1/' },
+    customData: '<language>en</language>',
+  });
+};
@@ -0,0 +1,18 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getOgCards, getOgImagePath, renderOgCard, type OgCard } from '../../utils/ogImages';
+
+// One PNG per page, at the path getOgImagePath() gives Layout.astro: "/og/ro/teams/pulsar.png"
+export const getStaticPaths = (async () => {
+  const cards = await getOgCards();
+  return cards.map((card) => ({
+    params: { path: getOgImagePath(card.path).replace(/^\/og\/|\.png$/g, '') },
+    props: { card },
+  }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute<{ card: OgCard }> = async ({ props }) => {
+  const png = await renderOgCard(props.card);
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
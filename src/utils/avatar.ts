@@ -0,0 +1,27 @@
+// First letters of the first and last name: "Iatagan Andrei" → "IA", "Bejenescu-Babușanu Ștefan" → "BȘ"
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const letters = words.length > 1 ? [words[0], words[words.length - 1]] : words;
+  return letters.map((word) => Array.from(word)[0] ?? '').join('').toLocaleUpperCase('ro');
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Initials on a solid background, as SVG markup for inlining into the page. `color` may be a
+ * CSS variable (team colors are), which is why the fill is set through `style` and the markup
+ * is not meant for a data: URL - variables do not resolve inside an <img>.
+ */
+export function createInitialsAvatar(name: string, color: string): string {
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" width="100%" height="100%" style="display: block" aria-hidden="true" focusable="false">',
+    `<rect width="100" height="100" style="fill: ${escapeXml(color)}"/>`,
+    // Darkens light team colors enough for white text
+    '<rect width="100" height="100" fill="#000" fill-opacity="0.35"/>',
+    '<text x="50" y="50" dy="0.35em" text-anchor="middle" font-size="36" font-weight="700" letter-spacing="1" fill="#fff">',
+    escapeXml(getInitials(name)),
+    '</text></svg>',
+  ].join('');
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+import { cleanLatex, parseAuthors, parseBibtex } from './bibtex';
+import { formatApa, type Publication } from './publications';
+
+// formatApa() needs no collection; publications.ts only imports getCollection for getPublications()
+vi.mock('astro:content', () => ({ getCollection: async () => [] }));
+
+describe('parseBibtex', () => {
+  it('expands @string macros joined with #, and month macros', () => {
+    const [entry] = parseBibtex(`
+      @string{lab = "Drift Lab"}
+      @STRING(campus = {CAMPUS})
+      @techreport{drift2025,
+        institution = lab # ", " # campus # " Research Institute",
+        month = oct,
+        year = 2025
+      }
+    `);
+
+    expect(entry.fields.institution).toBe('Drift Lab, CAMPUS Research Institute');
+    expect(entry.fields.month).toBe('October');
+    expect(entry.fields.year).toBe('2025');
+  });
+
+  it('keeps braced and quoted values raw, nested braces included', () => {
+    const [entry] = parseBibtex(`@article{key,
+      title = {Mapping with {ROS} {2}: a {{Nested}} case},
+      journal = "Robotics {"}Quarterly{"} and {Autonomy}",
+      note = {Quotes "inside" braces}
+    }`);
+
+    expect(entry).toMatchObject({ type: 'article', key: 'key', line: 1 });
+    expect(entry.fields.title).toBe('Mapping with {ROS} {2}: a {{Nested}} case');
+    expect(entry.fields.journal).toBe('Robotics {"}Quarterly{"} and {Autonomy}');
+    expect(entry.fields.note).toBe('Quotes "inside" braces');
+    expect(cleanLatex(entry.fields.title)).toBe('Mapping with ROS 2: a Nested case');
+  });
+
+  it('skips comments, @comment and @preamble blocks and stray "@"', () => {
+    const entries = parseBibtex(`
+      Exported by Zotero for lab@example.com
+      @comment{ @misc{hidden, title = {Not an entry}} }
+      @preamble{ "\\newcommand{\\noop}[1]{}" }
+      @misc{visible, title = {Shown}}
+    `);
+
+    expect(entries.map((entry) => entry.key)).toEqual(['visible']);
+  });
+
+  it('reports the file and line of a syntax error', () => {
+    expect(() => parseBibtex('\n@misc{key, title = undefinedMacro}', 'lab.bib')).toThrow(
+      'lab.bib:2: Unknown @string macro "undefinedMacro"'
+    );
+    expect(() => parseBibtex('@misc{key, title = {Open', 'lab.bib')).toThrow('lab.bib:1: Unbalanced "{"');
+  });
+});
+
+describe('cleanLatex', () => {
+  it('resolves accents, braced or bare', () => {
+    expect(cleanLatex("Andr\\'{e} M\\\"uller")).toBe('André Müller');
+    expect(cleanLatex('Bejenescu-Babu\\c{s}anu, {\\c{S}}tefan')).toBe('Bejenescu-Babuşanu, Ştefan');
+    expect(cleanLatex('Ne\\v{c}as, \\v Cern\\`y')).toBe('Nečas, Černỳ');
+    expect(cleanLatex('Stra\\ss e, \\O{}rsted, \\l{}\\\'od\\\'z')).toBe('Straße, Ørsted, łódź');
+  });
+
+  it('turns -- and --- into dashes and drops commands and braces', () => {
+    expect(cleanLatex('pp. 12--18')).toBe('pp. 12–18');
+    expect(cleanLatex('Results---and more')).toBe('Results—and more');
+    expect(cleanLatex('\\emph{Fast} {SLAM}~on \\textbf{50\\%} of \\& data')).toBe('Fast SLAM on 50% of & data');
+  });
+});
+
+describe('parseAuthors', () => {
+  it('reads "Last, First", "Last, Jr, First" and "First Last" names', () => {
+    expect(parseAuthors('Iatagan, Andrei and Ana-Maria Popescu and King, Jr., Martin')).toEqual([
+      { given: 'Andrei', family: 'Iatagan' },
+      { given: 'Ana-Maria', family: 'Popescu' },
+      { given: 'Martin', family: 'King' },
+    ]);
+  });
+
+  it('keeps a braced corporate author whole, "and" included', () => {
+    expect(parseAuthors('{Drift Lab and Friends} and Rusu, Cosmin-Constantin')).toEqual([
+      { given: '', family: 'Drift Lab and Friends' },
+      { given: 'Cosmin-Constantin', family: 'Rusu' },
+    ]);
+  });
+
+  it('splits only on the standalone word "and"', () => {
+    expect(parseAuthors('Anderson, Sandra AND Brandt, Roland')).toEqual([
+      { given: 'Sandra', family: 'Anderson' },
+      { given: 'Roland', family: 'Brandt' },
+    ]);
+  });
+
+  it('resolves accents in names', () => {
+    expect(parseAuthors('Lazăr, Drago\\c{s} George')).toEqual([{ given: 'Dragoş George', family: 'Lazăr' }]);
+  });
+});
+
+describe('formatApa', () => {
+  const author = (given: string, family: string) => ({ given, family, name: `${given} ${family}`.trim() });
+  const publication = (authors: Publication['authors'], fields: Partial<Publication> = {}): Publication => ({
+    key: 'key',
+    type: 'article',
+    title: 'Localization for planetary rovers',
+    authors,
+    year: 2025,
+    venue: 'Journal of Field Robotics',
+    volume: '42',
+    number: '3',
+    pages: '101–118',
+    doi: '10.1000/example',
+    teams: [],
+    bibtex: '',
+    ...fields,
+  });
+
+  it('formats a single author with initials', () => {
+    expect(formatApa(publication([author('Ana-Maria Elena', 'Popescu')]))).toBe(
+      'Popescu, A.-M. E. (2025). Localization for planetary rovers. Journal of Field Robotics, 42(3), 101–118. https://doi.org/10.1000/example'
+    );
+  });
+
+  it('joins two authors with "&"', () => {
+    expect(formatApa(publication([author('Andrei', 'Iatagan'), author('', 'Drift Lab')], { doi: undefined }))).toBe(
+      'Iatagan, A., & Drift Lab. (2025). Localization for planetary rovers. Journal of Field Robotics, 42(3), 101–118.'
+    );
+  });
+
+  it('lists up to 20 authors, then the first 19, an ellipsis and the last', () => {
+    const authors = (count: number) => Array.from({ length: count }, (_, index) => author('Test', `Author${index + 1}`));
+
+    const twenty = formatApa(publication(authors(20)));
+    expect(twenty).toMatch(/^Author1, T\., Author2, T\., .*Author19, T\., & Author20, T\. \(2025\)\./);
+
+    const many = formatApa(publication(authors(25)));
+    expect(many).toMatch(/^Author1, T\., .*Author19, T\., \.\.\. Author25, T\. \(2025\)\./);
+    expect(many).not.toContain('Author20,');
+    expect(many).not.toContain('&');
+  });
+
+  it('formats conference papers and theses', () => {
+    expect(
+      formatApa(publication([author('Andrei', 'Iatagan')], {
+        type: 'inproceedings',
+        venue: 'Proceedings of ROBOTICS 2025',
+        publisher: 'IEEE',
+        volume: undefined,
+        number: undefined,
+        doi: undefined,
+        url: 'https://example.com/paper',
+      }))
+    ).toBe(
+      'Iatagan, A. (2025). Localization for planetary rovers. In Proceedings of ROBOTICS 2025 (pp. 101–118). IEEE. https://example.com/paper'
+    );
+    expect(
+      formatApa(publication([author('Andrei', 'Iatagan')], { type: 'mastersthesis', venue: 'Politehnica University of Bucharest', doi: undefined }))
+    ).toBe("Iatagan, A. (2025). Localization for planetary rovers. [Master's thesis, Politehnica University of Bucharest].");
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Small BibTeX reader for the publications collection.
+ *
+ * Handles what reference managers (Zotero, JabRef, Google Scholar, Overleaf) export: braced and
+ * quoted values, bare numbers, @string macros with # concatenation, month macros, and
+ * @comment/@preamble blocks. Field values are kept as raw BibTeX (braces and LaTeX intact) so an
+ * entry can be written back out for "copy citation"; use cleanLatex() for display.
+ */
+
+export interface BibtexEntry {
+  // Lowercased entry type, e.g. "article", "inproceedings"
+  type: string;
+  key: string;
+  // Lowercased field name → raw value with macros expanded
+  fields: Record<string, string>;
+  // 1-based line of the "@" that starts the entry, for error messages
+  line: number;
+}
+
+export interface BibtexAuthor {
+  given: string;
+  family: string;
+}
+
+const MONTH_MACROS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+};
+
+// \'e → é and friends; the combining mark is merged with its letter by normalize('NFC')
+const ACCENT_MARKS: Record<string, string> = {
+  '`': '\u0300', "'": '\u0301', '^': '\u0302', '~': '\u0303', '=': '\u0304', u: '\u0306',
+  '.': '\u0307', '"': '\u0308', r: '\u030a', H: '\u030b', v: '\u030c', c: '\u0327', k: '\u0328',
+};
+
+const LETTER_COMMANDS: Record<string, string> = {
+  ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', o: 'ø', O: 'Ø', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ', aa: 'å', AA: 'Å',
+};
+
+class BibtexReader {
+  private source: string;
+  private fileName: string;
+  private position = 0;
+  private macros: Record<string, string> = { ...MONTH_MACROS };
+
+  constructor(source: string, fileName: string) {
+    this.source = source;
+    this.fileName = fileName;
+  }
+
+  read(): BibtexEntry[] {
+    const entries: BibtexEntry[] = [];
+
+    // Anything between entries is a comment as far as BibTeX is concerned
+    while ((this.position = this.source.indexOf('@', this.position)) !== -1) {
+      const line = this.lineAt(this.position);
+      this.position++;
+      const type = this.readIdentifier().toLowerCase();
+      this.skipWhitespace();
+
+      const open = this.source[this.position];
+      if (open !== '{' && open !== '(') {
+        // A stray "@" in comment text (an email address, say) rather than an entry
+        continue;
+      }
+      const close = open === '{' ? '}' : ')';
+
+      if (type === 'comment' || type === 'preamble') {
+        this.skipBalanced();
+        continue;
+      }
+
+      this.position++;
+      if (type === 'string') {
+        const fields = this.readFields(close);
+        Object.assign(this.macros, fields);
+        continue;
+      }
+
+      const key = this.readUntil(',', close).trim();
+      if (!key) this.fail(`@${type} entry without a citation key`, line);
+      if (this.source[this.position] === ',') this.position++;
+
+      entries.push({ type, key, fields: this.readFields(close), line });
+    }
+
+    return entries;
+  }
+
+  private readFields(close: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source[this.position] === close) {
+        this.position++;
+        return fields;
+      }
+      if (this.position >= this.source.length) this.fail(`Missing "${close}" at end of entry`);
+
+      const name = this.readIdentifier().toLowerCase();
+      if (!name) this.fail(`Expected a field name, found "${this.source[this.position]}"`);
+      this.skipWhitespace();
+      if (this.source[this.position] !== '=') this.fail(`Expected "=" after field "${name}"`);
+      this.position++;
+
+      fields[name] = this.readValue();
+      this.skipWhitespace();
+      if (this.source[this.position] === ',') this.position++;
+    }
+  }
+
+  // One or more parts joined with "#": {braced}, "quoted", 2024 or a macro name
+  private readValue(): string {
+    const parts: string[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.source[this.position];
+
+      if (char === '{') {
+        const start = this.position + 1;
+        this.skipBalanced();
+        parts.push(this.source.slice(start, this.position - 1));
+      } else if (char === '"') {
+        parts.push(this.readQuoted());
+      } else {
+        const word = this.readIdentifier();
+        if (!word) this.fail(`Expected a value, found "${char ?? 'end of file'}"`);
+        if (/^\d+$/.test(word)) {
+          parts.push(word);
+        } else {
+          const macro = this.macros[word.toLowerCase()];
+          if (macro === undefined) this.fail(`Unknown @string macro "${word}"`);
+          parts.push(macro);
+        }
+      }
+
+      this.skipWhitespace();
+      if (this.source[this.position] !== '#') break;
+      this.position++;
+    }
+
+    return parts.join('');
+  }
+
+  private readQuoted(): string {
+    const start = ++this.position;
+    let depth = 0;
+
+    for (; this.position < this.source.length; this.position++) {
+      const char = this.source[this.position];
+      if (char === '\\') {
+        this.position++;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+      } else if (char === '"' && depth === 0) {
+        return this.source.slice(start, this.position++);
+      }
+    }
+    return this.fail('Unterminated quoted value');
+  }
+
+  // Skips from an opening brace/parenthesis past its matching close
+  private skipBalanced(): void {
+    const start = this.position;
+    const open = this.source[this.position];
+    const close = open === '(' ? ')' : '}';
+    let depth = 0;
+
+    for (; this.position < this.source.length; this.position++) {
+      const char = this.source[this.position];
+      if (char === '\\') {
+        this.position++;
+      } else if (char === open || (open === '(' && char === '{')) {
+        depth++;
+      } else if (char === close || (open === '(' && char === '}')) {
+        depth--;
+        if (depth === 0) {
+          this.position++;
+          return;
+        }
+      }
+    }
+    this.fail(`Unbalanced "${open}"`, this.lineAt(start));
+  }
+
+  private readIdentifier(): string {
+    const match = /^[^\s"#%'(),={}@]+/.exec(this.source.slice(this.position));
+    if (!match) return '';
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private readUntil(...stops: string[]): string {
+    const start = this.position;
+    while (this.position < this.source.length && !stops.includes(this.source[this.position])) {
+      this.position++;
+    }
+    return this.source.slice(start, this.position);
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source[this.position] ?? '')) this.position++;
+  }
+
+  private lineAt(position: number): number {
+    return this.source.slice(0, position).split('\n').length;
+  }
+
+  private fail(message: string, line = this.lineAt(this.position)): never {
+    throw new Error(`${this.fileName}:${line}: ${message}`);
+  }
+}
+
+export function parseBibtex(source: string, fileName = 'input.bib'): BibtexEntry[] {
+  return new BibtexReader(source, fileName).read();
+}
+
+// Plain text for display: accents resolved, commands and protective braces dropped
+export function cleanLatex(value: string): string {
+  return value
+    .replace(/\\([`'^~="]|[uvHckr.](?=[\s{]))\s*(?:\{\s*(\\[ij]|[A-Za-z])\s*\}|(\\[ij]|[A-Za-z]))/g,
+      (_, accent: string, braced?: string, bare?: string) => {
+        const letter = (braced ?? bare ?? '').replace(/^\\/, '');
+        return letter + (ACCENT_MARKS[accent] ?? '');
+      })
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i|j)(?![A-Za-z])\s*(\{\})?/g, (_, command: string) => LETTER_COMMANDS[command])
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\[A-Za-z]+\*?\s*/g, '')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC');
+}
+
+// Splits on "and" outside braces, so "{Drift Lab and Friends}" stays a single (corporate) author
+function splitAuthors(value: string): string[] {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (
+      depth === 0 &&
+      value.slice(index, index + 3).toLowerCase() === 'and' &&
+      /\s/.test(value[index - 1] ?? '') &&
+      /\s/.test(value[index + 3] ?? '')
+    ) {
+      names.push(value.slice(start, index));
+      start = index + 3;
+    }
+  }
+  names.push(value.slice(start));
+  return names.map((name) => name.trim()).filter(Boolean);
+}
+
+// "Last, First", "Last, Jr, First" and "First Last" forms; a fully braced name is kept whole
+export function parseAuthors(value: string): BibtexAuthor[] {
+  return splitAuthors(value).map((raw) => {
+    if (/^\{.*\}$/.test(raw) && !raw.slice(1, -1).includes('}')) {
+      return { given: '', family: cleanLatex(raw) };
+    }
+
+    const parts = raw.split(',').map((part) => part.trim());
+    if (parts.length > 1) {
+      return { given: cleanLatex(parts[parts.length - 1]), family: cleanLatex(parts[0]) };
+    }
+
+    const words = cleanLatex(raw).split(' ');
+    return { given: words.slice(0, -1).join(' '), family: words[words.length - 1] };
+  });
+}
+
+export function formatAuthorName(author: BibtexAuthor): string {
+  return [author.given, author.family].filter(Boolean).join(' ');
+}
+
+// Writes an entry back out, fields in their original order
+export function formatBibtex(entry: Pick<BibtexEntry, 'type' | 'key' | 'fields'>): string {
+  const fields = Object.entries(entry.fields).map(([name, value]) => `  ${name} = {${value}}`);
+  return `@${entry.type}{${entry.key},\n${fields.join(',\n')}\n}`;
+}
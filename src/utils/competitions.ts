@@ -0,0 +1,64 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from '../i18n';
+import { getMembers, getTeams, type Member, type Team } from './members';
+import { createReferenceResolver } from './references';
+
+type CompetitionData = CollectionEntry<'competitions'>['data'];
+
+// Competition entry with team and member references resolved, ready for components
+export interface Competition extends Omit<CompetitionData, 'team' | 'members'> {
+  id: string;
+  team: Team;
+  members: Member[];
+}
+
+// Newest first; within a year by start date, then by event name
+export async function getCompetitions(locale: Locale = DEFAULT_LOCALE): Promise<Competition[]> {
+  const [entries, members, teams] = await Promise.all([
+    getCollection('competitions'),
+    getMembers(locale),
+    getTeams(locale),
+  ]);
+  const resolveMember = createReferenceResolver(members, (member) => member.slug);
+  const resolveTeam = createReferenceResolver(teams, (team) => team.id);
+
+  return entries
+    .map((entry) => ({
+      ...entry.data,
+      id: entry.id,
+      team: resolveTeam(entry.data.team),
+      members: entry.data.members.map(resolveMember),
+    }))
+    .sort((a, b) =>
+      b.year - a.year ||
+      (b.startDate?.getTime() ?? 0) - (a.startDate?.getTime() ?? 0) ||
+      a.event.localeCompare(b.event)
+    );
+}
+
+// Placed or awarded, as opposed to took part
+export function hasResult(competition: Pick<Competition, 'placement' | 'awards'>): boolean {
+  return Boolean(competition.placement) || competition.awards.length > 0;
+}
+
+// "12–16 September 2025", "30 August – 2 September 2025" or just "2025"
+export function formatCompetitionDates(
+  competition: Pick<Competition, 'year' | 'startDate' | 'endDate'>,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const { year, startDate, endDate } = competition;
+  if (!startDate) return String(year);
+
+  const format = (date: Date, options: Intl.DateTimeFormatOptions) =>
+    date.toLocaleDateString(LOCALE_INFO[locale].intlLocale, { ...options, timeZone: 'UTC' });
+  const full = { day: 'numeric', month: 'long', year: 'numeric' } as const;
+
+  if (!endDate || endDate.getTime() === startDate.getTime()) return format(startDate, full);
+  if (startDate.getUTCFullYear() !== endDate.getUTCFullYear()) {
+    return `${format(startDate, full)} – ${format(endDate, full)}`;
+  }
+  if (startDate.getUTCMonth() === endDate.getUTCMonth()) {
+    return `${startDate.getUTCDate()}–${format(endDate, full)}`;
+  }
+  return `${format(startDate, { day: 'numeric', month: 'long' })} – ${format(endDate, full)}`;
+}
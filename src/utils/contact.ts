@@ -0,0 +1,118 @@
+/**
+ * Contact/application form fields and their validation.
+ * Shared by the form script, the delivery adapters and the dev mock endpoint, so it must not import anything from Astro.
+ */
+
+export interface ContactSubmission {
+  name: string;
+  email: string;
+  // Free text, e.g. "Automatic Control and Computers, 2nd year"
+  faculty: string;
+  // Team id from teams.json, or '' for a general message
+  team: string;
+  message: string;
+  // Link to a CV, LinkedIn or portfolio
+  cv: string;
+}
+
+export type ContactField = keyof ContactSubmission;
+
+// What the form sends to the endpoint: the fields plus what the spam checks need
+export interface ContactPayload extends ContactSubmission {
+  // Honeypot: hidden from people, filled in by bots that complete every input
+  website: string;
+  // Time between the form appearing and being sent
+  elapsedMs: number;
+  locale: string;
+  // Page the form was sent from
+  page: string;
+}
+
+export type ContactErrorCode = 'required' | 'tooLong' | 'email' | 'url' | 'team';
+
+export interface ContactError {
+  code: ContactErrorCode;
+  // Character limit, for "tooLong"
+  max?: number;
+}
+
+export type ContactErrors = Partial<Record<ContactField, ContactError>>;
+
+export const CONTACT_FIELDS: readonly ContactField[] = ['name', 'email', 'faculty', 'team', 'message', 'cv'];
+
+export const REQUIRED_CONTACT_FIELDS: readonly ContactField[] = ['name', 'email', 'message'];
+
+export const CONTACT_MAX_LENGTHS: Record<ContactField, number> = {
+  name: 100,
+  email: 254,
+  faculty: 120,
+  team: 64,
+  message: 5000,
+  cv: 500,
+};
+
+export const HONEYPOT_FIELD = 'website';
+
+// People need a few seconds to fill in even the required fields; bots submit right away
+export const MIN_FILL_TIME_MS = 3000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Trimmed field values from form data or a parsed JSON body; anything that is not a string counts as empty
+export function readContactSubmission(source: FormData | Record<string, unknown>): ContactSubmission {
+  const read = (field: ContactField) => {
+    const value = source instanceof FormData ? source.get(field) : source[field];
+    return typeof value === 'string' ? value.trim() : '';
+  };
+
+  return {
+    name: read('name'),
+    email: read('email'),
+    faculty: read('faculty'),
+    team: read('team'),
+    message: read('message'),
+    cv: read('cv'),
+  };
+}
+
+// Errors by field; an empty object means the submission is valid
+export function validateContactSubmission(submission: ContactSubmission, teamIds: readonly string[]): ContactErrors {
+  const errors: ContactErrors = {};
+
+  for (const field of CONTACT_FIELDS) {
+    const value = submission[field];
+    if (!value) {
+      if (REQUIRED_CONTACT_FIELDS.includes(field)) errors[field] = { code: 'required' };
+      continue;
+    }
+    if (value.length > CONTACT_MAX_LENGTHS[field]) {
+      errors[field] = { code: 'tooLong', max: CONTACT_MAX_LENGTHS[field] };
+    } else if (field === 'email' && !EMAIL_PATTERN.test(value)) {
+      errors[field] = { code: 'email' };
+    } else if (field === 'cv' && !isHttpUrl(value)) {
+      errors[field] = { code: 'url' };
+    } else if (field === 'team' && !teamIds.includes(value)) {
+      errors[field] = { code: 'team' };
+    }
+  }
+
+  return errors;
+}
+
+export function hasContactErrors(errors: ContactErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
+
+// Bot-like submissions are dropped without telling the sender, so bots learn nothing from the response
+export function isLikelySpam(payload: Pick<ContactPayload, 'website' | 'elapsedMs'>): boolean {
+  return Boolean(payload.website) || !(payload.elapsedMs >= MIN_FILL_TIME_MS);
+}
@@ -0,0 +1,77 @@
+import type { ContactErrors, ContactField, ContactPayload } from './contact';
+
+/**
+ * How the contact form gets a message to the lab. The site is static, so it either posts to an
+ * external endpoint (PUBLIC_CONTACT_ENDPOINT) or opens the visitor's email app with the message filled in.
+ */
+
+export type DeliveryResult =
+  // The endpoint accepted the message
+  | { status: 'sent' }
+  // The email app was asked to open; whether the visitor sends the email is up to them
+  | { status: 'opened' }
+  // The endpoint rejected some fields
+  | { status: 'invalid'; errors: ContactErrors }
+  | { status: 'failed' };
+
+export interface ContactDelivery {
+  send(payload: ContactPayload): Promise<DeliveryResult>;
+}
+
+export interface MailtoOptions {
+  address: string;
+  // e.g. "Application to PULSAR from Ana Pop"
+  getSubject: (payload: ContactPayload) => string;
+  // Field labels for the email body, in the page's language
+  labels: Record<ContactField, string>;
+  // Team id → name, so the email names the team
+  teamNames: Record<string, string>;
+}
+
+// POSTs the payload as JSON. The endpoint answers 2xx when it accepted the message,
+// and 422 with { "errors": { field: { code } } } when it rejected fields
+export function createEndpointDelivery(endpoint: string): ContactDelivery {
+  return {
+    async send(payload) {
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+          body: JSON.stringify(payload),
+        });
+
+        if (response.ok) return { status: 'sent' };
+        if (response.status === 422) {
+          const body = (await response.json().catch(() => null)) as { errors?: ContactErrors } | null;
+          if (body?.errors) return { status: 'invalid', errors: body.errors };
+        }
+        return { status: 'failed' };
+      } catch {
+        // Offline, blocked by CORS or the endpoint is down
+        return { status: 'failed' };
+      }
+    },
+  };
+}
+
+// Body lines "Label: value" for the filled-in fields, then the message
+export function formatMailtoBody(
+  payload: ContactPayload,
+  { labels, teamNames }: Pick<MailtoOptions, 'labels' | 'teamNames'>
+): string {
+  const details = (['name', 'email', 'faculty', 'team', 'cv'] as const)
+    .filter((field) => payload[field])
+    .map((field) => `${labels[field]}: ${field === 'team' ? teamNames[payload.team] ?? payload.team : payload[field]}`);
+  return [...details, '', payload.message].join('\n');
+}
+
+export function createMailtoDelivery(options: MailtoOptions): ContactDelivery {
+  return {
+    async send(payload) {
+      const params = new URLSearchParams({ subject: options.getSubject(payload), body: formatMailtoBody(payload, options) });
+      // URLSearchParams encodes spaces as "+", which mail clients show literally
+      window.location.href = `mailto:${options.address}?${params.toString().replace(/\+/g, '%20')}`;
+      return { status: 'opened' };
+    },
+  };
+}
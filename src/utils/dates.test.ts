@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { isWithinDateRange } from './dates';
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('isWithinDateRange', () => {
+  const range = { start: day('2026-10-01'), end: day('2026-10-31') };
+
+  it('includes the first and the whole last day', () => {
+    expect(isWithinDateRange(range, new Date('2026-10-01T00:00:00Z'))).toBe(true);
+    expect(isWithinDateRange(range, new Date('2026-10-31T23:59:59Z'))).toBe(true);
+  });
+
+  it('excludes the days around the range', () => {
+    expect(isWithinDateRange(range, new Date('2026-09-30T23:59:59Z'))).toBe(false);
+    expect(isWithinDateRange(range, new Date('2026-11-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('leaves a missing bound open', () => {
+    expect(isWithinDateRange({ end: day('2026-10-31') }, day('2000-01-01'))).toBe(true);
+    expect(isWithinDateRange({ start: day('2026-10-01') }, day('2100-01-01'))).toBe(true);
+    expect(isWithinDateRange({}, new Date())).toBe(true);
+  });
+});
@@ -0,0 +1,17 @@
+// Calendar dates written without a time in the data files (opening deadlines, partner periods), parsed as UTC midnight
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateRange {
+  // First day of the range; open-ended when left out
+  start?: Date;
+  // Last day of the range, included in full; open-ended when left out
+  end?: Date;
+}
+
+// Whether `now` falls on a day of the range, checked when the site is built
+export function isWithinDateRange(range: DateRange, now: Date = new Date()): boolean {
+  const started = !range.start || range.start.getTime() <= now.getTime();
+  const ended = range.end !== undefined && now.getTime() >= range.end.getTime() + DAY_MS;
+  return started && !ended;
+}
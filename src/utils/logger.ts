@@ -0,0 +1,59 @@
+import { readStorage } from './storage';
+
+/**
+ * Tiny leveled logger.
+ *
+ * Development builds log everything from "debug" up; production builds are silent unless a
+ * level is stored under LOG_LEVEL_STORAGE_KEY (e.g. localStorage.setItem('driftlab:log-level', 'debug'))
+ * or set at runtime with setLogLevel().
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface Logger {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+export const LOG_LEVEL_STORAGE_KEY = 'driftlab:log-level';
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function readStoredLevel(): LogLevel | null {
+  const value = readStorage(LOG_LEVEL_STORAGE_KEY);
+  return isLogLevel(value) ? value : null;
+}
+
+let currentLevel: LogLevel = readStoredLevel() ?? (import.meta.env.DEV ? 'debug' : 'silent');
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+function isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(currentLevel);
+}
+
+/**
+ * Logger that prefixes every message with [scope]. The level is checked on every call, so
+ * loggers created at module load follow later setLogLevel() calls.
+ */
+export function createLogger(scope: string): Logger {
+  const prefix = `[${scope}]`;
+  return {
+    debug: (...args) => { if (isEnabled('debug')) console.debug(prefix, ...args); },
+    info: (...args) => { if (isEnabled('info')) console.info(prefix, ...args); },
+    warn: (...args) => { if (isEnabled('warn')) console.warn(prefix, ...args); },
+    error: (...args) => { if (isEnabled('error')) console.error(prefix, ...args); },
+  };
+}
@@ -0,0 +1,106 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { SITE } from '../config/site';
+import { DEFAULT_LOCALE, localizePath, type Locale } from '../i18n';
+import { createReferenceResolver } from './references';
+
+type TeamData = CollectionEntry<'teams'>['data'];
+type MemberData = CollectionEntry<'members'>['data'];
+
+// Team with its description in the requested locale
+export interface Team extends TeamData {
+  id: string;
+  // Locale the description is written in; differs from the requested one when it fell back to English
+  descriptionLocale: Locale;
+}
+
+type MembershipPeriodData = MemberData['history'][number];
+
+// Role held over one or more academic years; without a team it was a lab-wide role
+export interface MembershipPeriod extends Omit<MembershipPeriodData, 'team'> {
+  team?: Team;
+}
+
+// Member with team references resolved and the bio in the requested locale, ready for components
+export interface Member extends Omit<MemberData, 'teams' | 'history'> {
+  slug: string;
+  teams: Team[];
+  history: MembershipPeriod[];
+  // Locale the bio is written in; differs from the requested one when it fell back to English
+  shortDescLocale: Locale;
+  // Same for nextStep
+  nextStepLocale: Locale;
+}
+
+export async function getTeams(locale: Locale = DEFAULT_LOCALE): Promise<Team[]> {
+  const entries = await getCollection('teams');
+  return entries.map((entry) => {
+    const description = entry.data.translations[locale]?.description;
+    return {
+      id: entry.id,
+      ...entry.data,
+      description: description ?? entry.data.description,
+      descriptionLocale: description ? locale : DEFAULT_LOCALE,
+    };
+  });
+}
+
+// Members in members.json order
+export async function getMembers(locale: Locale = DEFAULT_LOCALE): Promise<Member[]> {
+  const [entries, teams] = await Promise.all([getCollection('members'), getTeams(locale)]);
+  const resolveTeam = createReferenceResolver(teams, (team) => team.id);
+
+  return entries.map((entry) => {
+    const { shortDesc, nextStep } = entry.data.translations[locale] ?? {};
+    return {
+      ...entry.data,
+      slug: entry.id,
+      teams: entry.data.teams.map(resolveTeam),
+      history: entry.data.history.map((period) => ({
+        ...period,
+        team: period.team && resolveTeam(period.team),
+      })),
+      shortDesc: shortDesc ?? entry.data.shortDesc,
+      shortDescLocale: shortDesc ? locale : DEFAULT_LOCALE,
+      nextStep: nextStep ?? entry.data.nextStep,
+      nextStepLocale: nextStep ? locale : DEFAULT_LOCALE,
+    };
+  });
+}
+
+// Current members: the homepage directory and the galaxy's member stars
+export async function getActiveMembers(locale: Locale = DEFAULT_LOCALE): Promise<Member[]> {
+  return (await getMembers(locale)).filter((member) => member.status === 'active');
+}
+
+// Former members, listed on /alumni
+export async function getAlumni(locale: Locale = DEFAULT_LOCALE): Promise<Member[]> {
+  return (await getMembers(locale)).filter((member) => member.status === 'alumni');
+}
+
+// Accent for a member's star and avatar: their first team's color, or the lab's
+export function getMemberColor(member: Pick<Member, 'teams'>): string {
+  return member.teams[0]?.color ?? 'var(--color-primary)';
+}
+
+// Team page generated by src/pages/[...lang]/teams/[id].astro
+export function getTeamUrl(team: Pick<Team, 'id'>, locale: Locale = DEFAULT_LOCALE): string {
+  return localizePath(`/teams/${team.id}/`, locale);
+}
+
+export function getTeamImagePath(fileName: string): string {
+  return `/images/teams/${fileName}`;
+}
+
+// Profile page generated by src/pages/[...lang]/members/[slug].astro
+export function getMemberUrl(member: Pick<Member, 'slug'>, locale: Locale = DEFAULT_LOCALE): string {
+  return localizePath(`/members/${member.slug}/`, locale);
+}
+
+// Members without a team (e.g. the lab lead) belong to the lab as a whole
+export function formatTeams(member: Member): string {
+  return member.teams.map((team) => team.name).join(', ') || SITE.name;
+}
+
+export function formatRoles(member: Member): string {
+  return member.roles.join(', ');
+}
@@ -0,0 +1,110 @@
+import { DEFAULT_LOCALE, type Locale } from '../i18n';
+import { getMembers, getTeams, type Member, type MembershipPeriod, type Team } from './members';
+
+// Academic years start on October 1st (month 9 counted from 0)
+const ACADEMIC_YEAR_START_MONTH = 9;
+
+// Academic year a date falls in, by the calendar year it starts in: September 2025 is still 2024
+export function getAcademicYear(date: Date = new Date()): number {
+  const year = date.getUTCFullYear();
+  return date.getUTCMonth() >= ACADEMIC_YEAR_START_MONTH ? year : year - 1;
+}
+
+// 2024 → "2024-2025", as academic years are written in members.json
+export function formatAcademicYear(year: number): string {
+  return `${year}-${year + 1}`;
+}
+
+// "2024-2025" for a single year, "2022–2025" for several, "2023–present" while ongoing
+export function formatPeriodYears(period: Pick<MembershipPeriod, 'from' | 'to'>, presentLabel: string): string {
+  if (period.to === undefined) return `${period.from}–${presentLabel}`;
+  if (period.to === period.from) return formatAcademicYear(period.from);
+  return `${period.from}–${period.to + 1}`;
+}
+
+// Ongoing periods, and periods planned past the current year, are cut at the current year
+function getPeriodYears(period: Pick<MembershipPeriod, 'from' | 'to'>, currentYear: number): number[] {
+  const last = Math.min(period.to ?? currentYear, currentYear);
+  return Array.from({ length: Math.max(0, last - period.from + 1) }, (_, index) => period.from + index);
+}
+
+// Members without a history count from their joinYear (or this year) in their current teams;
+// alumni without one are not counted in any year
+function getStatsPeriods(member: Member, currentYear: number): Pick<MembershipPeriod, 'from' | 'to' | 'team'>[] {
+  if (member.history.length > 0) return member.history;
+  if (member.status !== 'active') return [];
+
+  const from = Math.min(member.joinYear ?? currentYear, currentYear);
+  return member.teams.length > 0 ? member.teams.map((team) => ({ from, team })) : [{ from }];
+}
+
+export interface LabStats {
+  activeMembers: number;
+  alumni: number;
+  // First academic year on record
+  since?: number;
+  // Every academic year from `since` to the current one, oldest first
+  years: { year: number; members: number }[];
+  // Members per team in the current academic year, teams.json order; teams without members are left out
+  teams: { team: Team; members: number }[];
+}
+
+// "Lab in numbers" on the homepage, computed from the membership history when the site is built
+export async function getLabStats(locale: Locale = DEFAULT_LOCALE, now: Date = new Date()): Promise<LabStats> {
+  const [members, teams] = await Promise.all([getMembers(locale), getTeams(locale)]);
+  const currentYear = getAcademicYear(now);
+
+  // Academic year → slugs of the members in the lab that year; team id → current members
+  const membersByYear = new Map<number, Set<string>>();
+  const currentMembersByTeam = new Map<string, Set<string>>();
+
+  for (const member of members) {
+    for (const period of getStatsPeriods(member, currentYear)) {
+      for (const year of getPeriodYears(period, currentYear)) {
+        if (!membersByYear.has(year)) membersByYear.set(year, new Set());
+        membersByYear.get(year)!.add(member.slug);
+
+        if (year === currentYear && period.team) {
+          if (!currentMembersByTeam.has(period.team.id)) currentMembersByTeam.set(period.team.id, new Set());
+          currentMembersByTeam.get(period.team.id)!.add(member.slug);
+        }
+      }
+    }
+  }
+
+  const since = membersByYear.size > 0 ? Math.min(...membersByYear.keys()) : undefined;
+
+  return {
+    activeMembers: members.filter((member) => member.status === 'active').length,
+    alumni: members.filter((member) => member.status === 'alumni').length,
+    since,
+    years: since === undefined
+      ? []
+      : getPeriodYears({ from: since }, currentYear).map((year) => ({ year, members: membersByYear.get(year)?.size ?? 0 })),
+    teams: teams
+      .map((team) => ({ team, members: currentMembersByTeam.get(team.id)?.size ?? 0 }))
+      .filter((entry) => entry.members > 0),
+  };
+}
+
+export interface AlumniCohort {
+  // Last academic year the cohort spent in the lab; undefined for alumni without a recorded history
+  year?: number;
+  alumni: Member[];
+}
+
+// Alumni grouped by the academic year they left in, most recent first, names alphabetical within a year
+export function groupAlumniByCohort(alumni: Member[], locale: Locale = DEFAULT_LOCALE): AlumniCohort[] {
+  const cohorts = new Map<number | undefined, Member[]>();
+
+  for (const member of alumni) {
+    const lastYears = member.history.map((period) => period.to ?? period.from);
+    const year = lastYears.length > 0 ? Math.max(...lastYears) : undefined;
+    if (!cohorts.has(year)) cohorts.set(year, []);
+    cohorts.get(year)!.push(member);
+  }
+
+  return [...cohorts.entries()]
+    .map(([year, members]) => ({ year, alumni: members.sort((a, b) => a.name.localeCompare(b.name, locale)) }))
+    .sort((a, b) => (b.year ?? -Infinity) - (a.year ?? -Infinity));
+}
@@ -0,0 +1,35 @@
+import { getNavItems, type NavItem } from '../config/site';
+import { getAlumni } from './members';
+import { getPublications } from './publications';
+import { getVehicles } from './vehicles';
+
+type PageKey = NavItem['key'];
+
+// Pages that are only built once they have something to list; until then they get no route, link or share card
+const PAGE_HAS_CONTENT: Partial<Record<PageKey, () => Promise<boolean>>> = {
+  research: async () => (await getPublications()).length > 0,
+  fleet: async () => (await getVehicles()).length > 0,
+  alumni: async () => (await getAlumni()).length > 0,
+};
+
+/**
+ * Checked once per build, as every footer asks; the dev server checks again on each
+ * request so a page appears as soon as its first entry is added.
+ */
+const heldPromises = new Map<PageKey, Promise<boolean>>();
+
+export function isPageHeld(key: PageKey): Promise<boolean> {
+  const hasContent = PAGE_HAS_CONTENT[key];
+  if (!hasContent) return Promise.resolve(false);
+  if (import.meta.env.DEV || !heldPromises.has(key)) {
+    heldPromises.set(key, hasContent().then((found) => !found));
+  }
+  return heldPromises.get(key)!;
+}
+
+// getNavItems() without the held pages, for menus rendered by components
+export async function getVisibleNavItems(menu: NavItem['menus'][number]): Promise<NavItem[]> {
+  const items = getNavItems(menu);
+  const held = await Promise.all(items.map((item) => isPageHeld(item.key)));
+  return items.filter((_, index) => !held[index]);
+}
@@ -0,0 +1,85 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { SITE } from '../config/site';
+import { DEFAULT_LOCALE, LOCALE_INFO, localizePath, type Locale } from '../i18n';
+import { getMembers, getTeams, type Member, type Team } from './members';
+import { createReferenceResolver } from './references';
+
+type PostEntry = CollectionEntry<'news'>;
+
+// Post with member and team references resolved, ready for components
+export interface Post extends Omit<PostEntry['data'], 'authors' | 'teams'> {
+  slug: string;
+  // For render() on the post page
+  entry: PostEntry;
+  authors: Member[];
+  teams: Team[];
+  // Minutes, rounded up
+  readingTime: number;
+}
+
+export const NEWS_FEED_URL = '/news/rss.xml';
+
+const WORDS_PER_MINUTE = 200;
+
+// Counts words of the Markdown source, leaving out code blocks, MDX imports and markup
+export function getReadingTime(body: string): number {
+  const text = body
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/^(import|export)\s.*$/gm, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~|-]+/g, ' ');
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+// Newest first; drafts only outside production builds
+// Posts are written in English; the locale only applies to the resolved authors and teams
+export async function getPosts(locale: Locale = DEFAULT_LOCALE): Promise<Post[]> {
+  const [entries, members, teams] = await Promise.all([
+    getCollection('news', (entry) => !import.meta.env.PROD || !entry.data.draft),
+    getMembers(locale),
+    getTeams(locale),
+  ]);
+  const resolveMember = createReferenceResolver(members, (member) => member.slug);
+  const resolveTeam = createReferenceResolver(teams, (team) => team.id);
+
+  return entries
+    .map((entry) => ({
+      ...entry.data,
+      slug: entry.id,
+      entry,
+      authors: entry.data.authors.map(resolveMember),
+      teams: entry.data.teams.map(resolveTeam),
+      readingTime: getReadingTime(entry.body ?? ''),
+    }))
+    .sort((a, b) => b.date.getTime() - a.date.getTime() || a.title.localeCompare(b.title));
+}
+
+// Explicit teams plus the teams of the authors, for the /news team filter
+export function getPostTeams(post: Post): Team[] {
+  const teams = new Map(post.teams.map((team) => [team.id, team]));
+  for (const author of post.authors) {
+    author.teams.forEach((team) => teams.set(team.id, team));
+  }
+  return [...teams.values()];
+}
+
+// Post page generated by src/pages/[...lang]/news/[slug].astro
+export function getPostUrl(post: Pick<Post, 'slug'>, locale: Locale = DEFAULT_LOCALE): string {
+  return localizePath(`/news/${post.slug}/`, locale);
+}
+
+// Dates are written without a time in frontmatter and parsed as UTC midnight
+export function formatPostDate(date: Date, locale: Locale = DEFAULT_LOCALE): string {
+  return date.toLocaleDateString(LOCALE_INFO[locale].intlLocale, {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function formatPostAuthors(post: Pick<Post, 'authors'>): string {
+  return post.authors.map((author) => author.name).join(', ') || SITE.name;
+}
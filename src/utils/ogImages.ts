@@ -0,0 +1,285 @@
+import sharp from 'sharp';
+import { generateGalaxy } from '../components/GalaxyGenerator';
+import { DEFAULT_GALAXY_SETTINGS } from '../components/GalaxyOptions';
+import { SITE } from '../config/site';
+import { LOCALES, getDictionary, localizePath, type Locale } from '../i18n';
+import { formatRoles, formatTeams, getMemberColor, getMemberUrl, getMembers, getTeamUrl, getTeams } from './members';
+import { isPageHeld } from './navigation';
+import { formatPostDate, getPostUrl, getPosts } from './news';
+import globalStyles from '../styles/global.css?raw';
+
+/**
+ * Social cards (Open Graph images) generated at build time, one per page and locale.
+ * src/pages/og/[...path].png.ts renders them and Layout.astro links them from pages that
+ * do not pass their own image. Pages built from data (teams, members, posts) get a card
+ * automatically; a new static page needs an entry in getOgCards().
+ */
+
+export const OG_CARD_WIDTH = 1200;
+export const OG_CARD_HEIGHT = 630;
+
+export interface OgCard {
+  // Page the card belongs to, as in Astro.url.pathname: "/", "/ro/teams/pulsar/"
+  path: string;
+  // Small caps line above the title, e.g. "Team" or "News"
+  kicker: string;
+  title: string;
+  subtitle: string;
+  // Any CSS color, including the var(--color-accent-*) values used in teams.json
+  accent: string;
+}
+
+// Same size as the hero's galaxy on desktop, with fewer particles: the card is small
+const GALAXY_PARTICLES = 3000;
+
+const FONT_FAMILY = "Inter, 'DejaVu Sans', Arial, sans-serif";
+
+// --color-primary, for pages that do not belong to a team
+const SITE_ACCENT = '#3b82f6';
+
+// Average glyph width as a share of the font size, for line wrapping without a layout engine
+const GLYPH_WIDTH = { title: 0.58, subtitle: 0.55 };
+
+const TEXT_LEFT = 80;
+const TEXT_WIDTH = 700;
+
+// Custom properties from global.css, so cards can use the same accent variables as the pages.
+// Cards are dark, so they use the dark theme's values: the first block in the file.
+let cssVariables: Map<string, string> | undefined;
+
+function resolveColor(color: string): string {
+  const variable = /^var\((--[\w-]+)\)$/.exec(color.trim())?.[1];
+  if (!variable) return color;
+
+  if (!cssVariables) {
+    cssVariables = new Map();
+    for (const [, name, value] of globalStyles.matchAll(/(--[\w-]+):\s*([^;]+);/g)) {
+      if (!cssVariables.has(name)) cssVariables.set(name, value.trim());
+    }
+  }
+  return cssVariables.get(variable) ?? SITE_ACCENT;
+}
+
+// Shortens text on a word boundary
+function truncate(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxLength) return clean;
+  return `${clean.slice(0, maxLength - 1).replace(/\s+\S*$/, '')}…`;
+}
+
+/**
+ * Pages that get a card: every localized route. Built once per build; the dev server
+ * rebuilds it on each request so edited data shows up.
+ */
+let cardsPromise: Promise<OgCard[]> | undefined;
+
+export function getOgCards(): Promise<OgCard[]> {
+  if (import.meta.env.DEV || !cardsPromise) cardsPromise = loadOgCards();
+  return cardsPromise;
+}
+
+async function loadOgCards(): Promise<OgCard[]> {
+  // Held pages are not built, so they get no card either
+  const [researchHeld, fleetHeld, alumniHeld] = await Promise.all([
+    isPageHeld('research'),
+    isPageHeld('fleet'),
+    isPageHeld('alumni'),
+  ]);
+  const perLocale = await Promise.all(LOCALES.map(async (locale: Locale) => {
+    const t = getDictionary(locale);
+    const [teams, members, posts] = await Promise.all([getTeams(locale), getMembers(locale), getPosts(locale)]);
+    const page = (path: string, title: string, subtitle: string): OgCard => ({
+      path: localizePath(path, locale),
+      kicker: SITE.name,
+      title,
+      subtitle,
+      accent: SITE_ACCENT,
+    });
+
+    return [
+      { ...page('/', SITE.name, t.meta.organizationDescription), kicker: SITE.institute },
+      ...(researchHeld ? [] : [page('/research/', t.research.title, t.research.subtitle)]),
+      page('/news/', t.news.title, t.news.subtitle),
+      page('/join/', t.join.title, t.join.subtitle),
+      ...(fleetHeld ? [] : [page('/fleet/', t.fleet.title, t.fleet.subtitle)]),
+      page('/partners/', t.partners.title, t.partners.subtitle),
+      ...(alumniHeld ? [] : [page('/alumni/', t.alumni.title, t.alumni.subtitle)]),
+      page('/contact/', t.contact.heading, t.contact.subtitle),
+      ...teams.map((team) => ({
+        path: getTeamUrl(team, locale),
+        kicker: t.common.team,
+        title: team.name,
+        subtitle: team.competition ?? team.description,
+        accent: team.color,
+      })),
+      ...members.map((member) => ({
+        path: getMemberUrl(member, locale),
+        kicker: formatTeams(member),
+        title: member.name,
+        subtitle: formatRoles(member),
+        accent: getMemberColor(member),
+      })),
+      ...posts.map((post) => ({
+        path: getPostUrl(post, locale),
+        kicker: `${t.news.title} · ${formatPostDate(post.date, locale)}`,
+        title: post.title,
+        subtitle: post.description,
+        accent: post.teams[0]?.color ?? SITE_ACCENT,
+      })),
+    ];
+  }));
+
+  return perLocale.flat();
+}
+
+export async function findOgCard(pagePath: string): Promise<OgCard | undefined> {
+  const path = pagePath.endsWith('/') ? pagePath : `${pagePath}/`;
+  return (await getOgCards()).find((card) => card.path === path);
+}
+
+// "/" → "/og/index.png", "/ro/members/ana-pop/" → "/og/ro/members/ana-pop.png"
+export function getOgImagePath(pagePath: string): string {
+  const trimmed = pagePath.replace(/^\/+|\/+$/g, '');
+  const segments = trimmed ? trimmed.split('/') : [];
+  // A locale home page ("/ro/") gets "/og/ro/index.png" rather than "/og/ro.png"
+  if (segments.length <= 1 && segments.every((segment) => (LOCALES as readonly string[]).includes(segment))) {
+    segments.push('index');
+  }
+  return `/og/${segments.join('/')}.png`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Greedy word wrap; the last line gets an ellipsis when the text does not fit in maxLines
+function wrapText(text: string, fontSize: number, glyphWidth: number, maxLines: number): string[] {
+  const maxChars = Math.floor(TEXT_WIDTH / (fontSize * glyphWidth));
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines) {
+    lines.push(line);
+    return lines.map((value) => truncate(value, maxChars));
+  }
+  lines[maxLines - 1] = truncate(`${lines[maxLines - 1]} ${line}`, maxChars);
+  return lines;
+}
+
+// Three.js colors are linear; SVG wants sRGB
+function linearToSrgb(value: number): number {
+  const srgb = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, srgb)) * 255);
+}
+
+/**
+ * Dark grid background with the hero galaxy on the right: same seed and shape settings as the
+ * homepage, seen at the hero's tilt. Identical for every card, so it is rendered once.
+ */
+let backgroundPromise: Promise<Buffer> | undefined;
+
+function renderBackground(): Promise<Buffer> {
+  backgroundPromise ??= (async () => {
+    const settings = DEFAULT_GALAXY_SETTINGS;
+    const particles = generateGalaxy({
+      ...settings,
+      count: GALAXY_PARTICLES,
+      seed: settings.seed ?? 'drift-lab',
+    });
+    const centerX = OG_CARD_WIDTH * 0.78;
+    const centerY = OG_CARD_HEIGHT * 0.5;
+    // Most particles sit within a few units of the center (densityPower), which is what the hero camera frames
+    const scale = OG_CARD_HEIGHT / 12;
+    // Viewed from above at an angle, like the hero camera: the galaxy plane becomes an ellipse
+    const tilt = Math.cos(Math.PI * 0.3);
+    const yaw = settings.yaw;
+
+    const stars = particles.map((particle) => {
+      const { x, y, z } = particle.position;
+      const rotatedX = x * Math.cos(yaw) - z * Math.sin(yaw);
+      const rotatedZ = x * Math.sin(yaw) + z * Math.cos(yaw);
+      const { r, g, b } = particle.color;
+      return `<circle cx="${(centerX + rotatedX * scale).toFixed(1)}" cy="${(centerY + (rotatedZ * tilt - y) * scale).toFixed(1)}" r="${(particle.size * scale * 0.25).toFixed(2)}" fill="rgb(${linearToSrgb(r)},${linearToSrgb(g)},${linearToSrgb(b)})" fill-opacity="${Math.min(1, particle.opacity * 1.4).toFixed(2)}"/>`;
+    });
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_CARD_WIDTH}" height="${OG_CARD_HEIGHT}">
+  <defs>
+    <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
+      <path d="M40 0H0V40" fill="none" stroke="#ffffff" stroke-opacity="0.04"/>
+    </pattern>
+    <radialGradient id="core" cx="${centerX}" cy="${centerY}" r="160" gradientUnits="userSpaceOnUse">
+      <stop offset="0" stop-color="#93c5fd" stop-opacity="0.35"/>
+      <stop offset="1" stop-color="#3b82f6" stop-opacity="0"/>
+    </radialGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="#030305"/>
+  <rect width="100%" height="100%" fill="url(#grid)"/>
+  <circle cx="${centerX}" cy="${centerY}" r="160" fill="url(#core)"/>
+  ${stars.join('')}
+</svg>`;
+
+    return sharp(Buffer.from(svg)).png().toBuffer();
+  })();
+  return backgroundPromise;
+}
+
+// Text, accent glow and brand line, drawn over the shared background
+function renderForeground(card: OgCard): string {
+  const accent = escapeXml(resolveColor(card.accent));
+  const titleSize = card.title.length > 40 ? 56 : 68;
+  const titleLines = wrapText(card.title, titleSize, GLYPH_WIDTH.title, 3);
+  const subtitleLines = wrapText(card.subtitle, 28, GLYPH_WIDTH.subtitle, 3);
+  const kicker = truncate(card.kicker, 60).toUpperCase();
+
+  // Block vertically centered between the kicker line and the footer
+  const titleHeight = titleLines.length * titleSize * 1.1;
+  const subtitleHeight = subtitleLines.length * 28 * 1.4;
+  const top = Math.max(150, (OG_CARD_HEIGHT - titleHeight - subtitleHeight - 40) / 2);
+
+  const title = titleLines
+    .map((line, index) => `<tspan x="${TEXT_LEFT}" dy="${index === 0 ? 0 : titleSize * 1.1}">${escapeXml(line)}</tspan>`)
+    .join('');
+  const subtitle = subtitleLines
+    .map((line, index) => `<tspan x="${TEXT_LEFT}" dy="${index === 0 ? 0 : 28 * 1.4}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_CARD_WIDTH}" height="${OG_CARD_HEIGHT}">
+  <defs>
+    <radialGradient id="glow" cx="0" cy="0" r="1" gradientTransform="translate(0 ${OG_CARD_HEIGHT}) scale(760 520)" gradientUnits="userSpaceOnUse">
+      <stop offset="0" stop-color="${accent}" stop-opacity="0.35"/>
+      <stop offset="1" stop-color="${accent}" stop-opacity="0"/>
+    </radialGradient>
+    <linearGradient id="shade" x1="0" x2="1" y1="0" y2="0">
+      <stop offset="0.35" stop-color="#030305" stop-opacity="0.85"/>
+      <stop offset="0.75" stop-color="#030305" stop-opacity="0"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#shade)"/>
+  <rect width="100%" height="100%" fill="url(#glow)"/>
+  <rect x="0" y="0" width="${OG_CARD_WIDTH}" height="8" fill="${accent}"/>
+  <rect x="${TEXT_LEFT}" y="${top - 62}" width="48" height="4" rx="2" fill="${accent}"/>
+  <text x="${TEXT_LEFT}" y="${top - 28}" font-family="${FONT_FAMILY}" font-size="22" font-weight="600" letter-spacing="3" fill="${accent}">${escapeXml(kicker)}</text>
+  <text x="${TEXT_LEFT}" y="${top + titleSize}" font-family="${FONT_FAMILY}" font-size="${titleSize}" font-weight="800" fill="#ffffff">${title}</text>
+  <text x="${TEXT_LEFT}" y="${top + titleHeight + 56}" font-family="${FONT_FAMILY}" font-size="28" fill="#9ca3af">${subtitle}</text>
+  <text x="${TEXT_LEFT}" y="${OG_CARD_HEIGHT - 56}" font-family="${FONT_FAMILY}" font-size="24" font-weight="700" fill="#ffffff">${escapeXml(SITE.name)}</text>
+  <text x="${TEXT_LEFT + 130}" y="${OG_CARD_HEIGHT - 56}" font-family="${FONT_FAMILY}" font-size="22" fill="#6b7280">${escapeXml(new URL(SITE.url).host)}</text>
+</svg>`;
+}
+
+export async function renderOgCard(card: OgCard): Promise<Buffer> {
+  const background = await renderBackground();
+  return sharp(background)
+    .composite([{ input: Buffer.from(renderForeground(card)) }])
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+}
@@ -0,0 +1,67 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { DEFAULT_LOCALE, LOCALE_INFO, localizePath, type Locale } from '../i18n';
+import { isWithinDateRange } from './dates';
+import { getTeams, type Team } from './members';
+import { createReferenceResolver } from './references';
+
+type OpeningData = CollectionEntry<'openings'>['data'];
+
+// Opening with its team resolved and its text in the requested locale, ready for components
+export interface Opening extends Omit<OpeningData, 'team' | 'translations'> {
+  id: string;
+  team: Team;
+  // Locale the text is written in; differs from the requested one when it fell back to English
+  textLocale: Locale;
+}
+
+// Every opening, closed and expired ones included; earliest deadline first
+export async function getOpenings(locale: Locale = DEFAULT_LOCALE): Promise<Opening[]> {
+  const [entries, teams] = await Promise.all([getCollection('openings'), getTeams(locale)]);
+  const resolveTeam = createReferenceResolver(teams, (team) => team.id);
+
+  return entries
+    .map((entry) => {
+      const { translations, ...data } = entry.data;
+      const translation = translations[locale];
+      return {
+        ...data,
+        ...translation,
+        id: entry.id,
+        team: resolveTeam(data.team),
+        textLocale: translation ? locale : DEFAULT_LOCALE,
+      };
+    })
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime() || a.role.localeCompare(b.role));
+}
+
+// Applications are accepted through the whole deadline day (UTC)
+export function isOpeningOpen(opening: Pick<Opening, 'status' | 'deadline'>, now: Date = new Date()): boolean {
+  return opening.status === 'open' && isWithinDateRange({ end: opening.deadline }, now);
+}
+
+// What the site shows: open roles whose deadline has not passed when the site is built
+export async function getOpenOpenings(locale: Locale = DEFAULT_LOCALE): Promise<Opening[]> {
+  const now = new Date();
+  return (await getOpenings(locale)).filter((opening) => isOpeningOpen(opening, now));
+}
+
+// Contact form with the team preselected and, for a specific opening, the role mentioned in the message
+export function getApplicationUrl(team: Pick<Team, 'id'>, locale: Locale = DEFAULT_LOCALE, role?: string): string {
+  const params = new URLSearchParams({ team: team.id });
+  if (role) params.set('role', role);
+  return `${localizePath('/contact/', locale)}?${params}#contact-form`;
+}
+
+export function getOpeningUrl(opening: Pick<Opening, 'id'>, locale: Locale = DEFAULT_LOCALE): string {
+  return `${localizePath('/join/', locale)}#opening-${opening.id}`;
+}
+
+// Dates are written without a time in openings.json and parsed as UTC midnight
+export function formatOpeningDate(date: Date, locale: Locale = DEFAULT_LOCALE): string {
+  return date.toLocaleDateString(LOCALE_INFO[locale].intlLocale, {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
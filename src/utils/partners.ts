@@ -0,0 +1,67 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { HERO_PARTNER_TIERS, PARTNER_TIERS } from '../config/site';
+import { DEFAULT_LOCALE, type Locale } from '../i18n';
+import { isWithinDateRange } from './dates';
+import { getTeams, type Team } from './members';
+import { createReferenceResolver } from './references';
+import { absoluteUrl, type SponsorSchema } from './structuredData';
+
+type PartnerData = CollectionEntry<'partners'>['data'];
+
+// Partner with its teams resolved and its name in the requested locale
+export interface Partner extends Omit<PartnerData, 'teams' | 'translations'> {
+  id: string;
+  teams: Team[];
+}
+
+// Every partner, expired ones included; highest tier first, then partners.json order
+export async function getPartners(locale: Locale = DEFAULT_LOCALE): Promise<Partner[]> {
+  const [entries, teams] = await Promise.all([getCollection('partners'), getTeams(locale)]);
+  const resolveTeam = createReferenceResolver(teams, (team) => team.id);
+
+  return entries
+    .map((entry) => {
+      const { translations, ...data } = entry.data;
+      return {
+        ...data,
+        id: entry.id,
+        name: translations[locale]?.name ?? data.name,
+        teams: data.teams.map(resolveTeam),
+      };
+    })
+    .sort((a, b) => PARTNER_TIERS.indexOf(a.tier) - PARTNER_TIERS.indexOf(b.tier));
+}
+
+// Both the "since" and the "until" day count as active
+export function isPartnerActive(partner: Pick<Partner, 'since' | 'until'>, now: Date = new Date()): boolean {
+  return isWithinDateRange({ start: partner.since, end: partner.until }, now);
+}
+
+// What the site shows: partners whose sponsorship covers the day the site is built
+export async function getActivePartners(locale: Locale = DEFAULT_LOCALE): Promise<Partner[]> {
+  const now = new Date();
+  return (await getPartners(locale)).filter((partner) => isPartnerActive(partner, now));
+}
+
+// The hero's "Supported by" strip
+export async function getHeroPartners(locale: Locale = DEFAULT_LOCALE): Promise<Partner[]> {
+  return (await getActivePartners(locale)).filter((partner) => HERO_PARTNER_TIERS.includes(partner.tier));
+}
+
+export async function getTeamPartners(team: Pick<Team, 'id'>, locale: Locale = DEFAULT_LOCALE): Promise<Partner[]> {
+  return (await getActivePartners(locale)).filter((partner) => partner.teams.some((partnerTeam) => partnerTeam.id === team.id));
+}
+
+export function getPartnerLogoPath(fileName: string): string {
+  return `/images/partners/${fileName}`;
+}
+
+// Organization "sponsor" entries for JSON-LD
+export function getPartnerSponsors(partners: Partner[]): SponsorSchema[] {
+  return partners.map((partner) => ({
+    '@type': 'Organization',
+    name: partner.name,
+    ...(partner.url && { url: partner.url }),
+    logo: absoluteUrl(getPartnerLogoPath(partner.logo)),
+  }));
+}
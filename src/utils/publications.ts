@@ -0,0 +1,135 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { DEFAULT_LOCALE, localizePath, type Locale } from '../i18n';
+import { formatAuthorName } from './bibtex';
+import { getMembers, getTeams, type Member, type Team } from './members';
+import { createReferenceResolver } from './references';
+import { normalizeSearchText } from './search';
+
+type PublicationData = CollectionEntry<'publications'>['data'];
+
+export interface PublicationAuthor {
+  given: string;
+  family: string;
+  name: string;
+  // Set when the author is in members.json
+  member?: Member;
+}
+
+export interface Publication extends Omit<PublicationData, 'authors' | 'teams'> {
+  key: string;
+  authors: PublicationAuthor[];
+  teams: Team[];
+}
+
+// Headings on /research, in display order; unlisted BibTeX types fall under "other"
+// Labels are in the dictionaries under research.groups
+export const PUBLICATION_GROUPS = [
+  { id: 'articles', types: ['article'] },
+  { id: 'conference', types: ['inproceedings', 'conference', 'proceedings'] },
+  { id: 'books', types: ['book', 'inbook', 'incollection'] },
+  { id: 'theses', types: ['phdthesis', 'mastersthesis', 'thesis'] },
+  { id: 'other', types: [] },
+] as const;
+
+export type PublicationGroup = (typeof PUBLICATION_GROUPS)[number]['id'];
+
+export function getPublicationGroup(publication: Pick<Publication, 'type'>): PublicationGroup {
+  const group = PUBLICATION_GROUPS.find(({ types }) => (types as readonly string[]).includes(publication.type));
+  return group?.id ?? 'other';
+}
+
+// Order-insensitive, so "Iatagan, Andrei" in BibTeX finds member "Iatagan Andrei"
+function nameKey(name: string): string {
+  return normalizeSearchText(name).split(/[\s-]+/).sort().join(' ');
+}
+
+// Newest first, then by title
+export async function getPublications(locale: Locale = DEFAULT_LOCALE): Promise<Publication[]> {
+  const [entries, members, teams] = await Promise.all([
+    getCollection('publications'),
+    getMembers(locale),
+    getTeams(locale),
+  ]);
+  const membersByName = new Map(members.map((member) => [nameKey(member.name), member]));
+  const resolveTeam = createReferenceResolver(teams, (team) => team.id);
+
+  return entries
+    .map((entry) => ({
+      ...entry.data,
+      key: entry.id,
+      authors: entry.data.authors.map((author) => {
+        const name = formatAuthorName(author);
+        return { ...author, name, member: membersByName.get(nameKey(name)) };
+      }),
+      teams: entry.data.teams.map(resolveTeam),
+    }))
+    .sort((a, b) => b.year - a.year || a.title.localeCompare(b.title));
+}
+
+// Explicit teams plus the teams of member authors, for the /research team filter
+export function getPublicationTeams(publication: Publication): Team[] {
+  const teams = new Map(publication.teams.map((team) => [team.id, team]));
+  for (const author of publication.authors) {
+    author.member?.teams.forEach((team) => teams.set(team.id, team));
+  }
+  return [...teams.values()];
+}
+
+// Anchor of the entry on /research
+export function getPublicationUrl(publication: Pick<Publication, 'key'>, locale: Locale = DEFAULT_LOCALE): string {
+  return localizePath(`/research/#${encodeURIComponent(publication.key)}`, locale);
+}
+
+export function getDoiUrl(doi: string): string {
+  return `https://doi.org/${doi}`;
+}
+
+// "Ana-Maria Elena" → "A.-M. E."
+function initials(given: string): string {
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part.split('-').map((piece) => `${Array.from(piece)[0]}.`).join('-'))
+    .join(' ');
+}
+
+function formatApaAuthors(authors: PublicationAuthor[]): string {
+  const names = authors.map((author) => (author.given ? `${author.family}, ${initials(author.given)}` : author.family));
+
+  if (names.length === 1) return names[0];
+  if (names.length === 2) return `${names[0]}, & ${names[1]}`;
+  // APA 7: up to 20 authors are listed; beyond that the first 19, an ellipsis and the last
+  if (names.length > 20) return `${names.slice(0, 19).join(', ')}, ... ${names[names.length - 1]}`;
+  return `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+}
+
+const THESIS_KINDS: Record<string, string> = {
+  phdthesis: 'Doctoral dissertation',
+  mastersthesis: "Master's thesis",
+  thesis: 'Thesis',
+};
+
+// APA 7 reference as plain text (no italics), for "copy citation"
+export function formatApa(publication: Publication): string {
+  const { title, venue, volume, number, pages, publisher, year, doi, url } = publication;
+  const sentence = (text: string) => (/[.?!]$/.test(text) ? text : `${text}.`);
+  // Initials already end the author list with a period; a group author ("Drift Lab.") needs one
+  const parts = [`${sentence(formatApaAuthors(publication.authors))} (${year}).`, sentence(title)];
+
+  if (publication.type === 'article' && venue) {
+    parts.push(sentence(`${venue}${volume ? `, ${volume}` : ''}${number ? `(${number})` : ''}${pages ? `, ${pages}` : ''}`));
+  } else if (getPublicationGroup(publication) === 'conference' && venue) {
+    parts.push(sentence(`In ${venue}${pages ? ` (pp. ${pages})` : ''}`));
+    if (publisher) parts.push(sentence(publisher));
+  } else if (THESIS_KINDS[publication.type]) {
+    parts.push(`[${THESIS_KINDS[publication.type]}${venue ? `, ${venue}` : ''}].`);
+  } else {
+    if (venue) parts.push(sentence(venue));
+    if (publisher && publisher !== venue) parts.push(sentence(publisher));
+  }
+
+  if (doi) parts.push(getDoiUrl(doi));
+  else if (url) parts.push(url);
+
+  return parts.join(' ');
+}
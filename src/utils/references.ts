@@ -0,0 +1,9 @@
+// Lookup for the reference() fields of content collections, e.g. a member's teams.
+// The collection schemas reject unknown ids when the site is built, so every lookup succeeds
+export function createReferenceResolver<T>(
+  items: readonly T[],
+  getId: (item: T) => string
+): (reference: { id: string }) => T {
+  const itemsById = new Map(items.map((item) => [getId(item), item]));
+  return (reference) => itemsById.get(reference.id)!;
+}
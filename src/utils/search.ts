@@ -0,0 +1,8 @@
+// Lowercase text without diacritics, so "stefan" finds "Ștefan" (shared by build and browser)
+export function normalizeSearchText(value: string): string {
+  return value.normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
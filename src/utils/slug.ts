@@ -0,0 +1,9 @@
+// URL-safe identifier from a display name, e.g. "Iatagan Andrei" → "iatagan-andrei"
+// Diacritics are transliterated rather than dropped: "Lazăr Dragoș" → "lazar-dragos"
+export function toSlug(value: string): string {
+  return value.normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
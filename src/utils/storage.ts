@@ -0,0 +1,25 @@
+/**
+ * localStorage access that never throws.
+ *
+ * Storage can be blocked (privacy mode, disabled cookies) or missing (during the build). Reads
+ * then return null and writes are dropped, so a stored preference only lasts for the visit.
+ */
+
+export function readStorage(key: string): string | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+// Stores the value, or removes the key when it is null
+export function writeStorage(key: string, value: string | null): void {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, value);
+  } catch {
+    // Not persisted
+  }
+}
@@ -0,0 +1,254 @@
+import { SITE } from '../config/site';
+import { LOCALE_INFO, getDictionary, localizePath, type Locale } from '../i18n';
+
+/**
+ * Schema.org JSON-LD shared by several pages. Every builder checks its output (see validate()),
+ * so a missing name or a relative URL fails the build instead of reaching search engines.
+ * Schemas that only one page uses (BlogPosting, Event, ...) stay in that page.
+ */
+
+type JsonLdValue = string | number | boolean | JsonLdNode | JsonLdValue[];
+
+interface JsonLdNode {
+  '@type': string;
+  [property: string]: JsonLdValue | undefined;
+}
+
+export type WithContext<T extends JsonLdNode> = T & { '@context': 'https://schema.org' };
+
+export interface PostalAddressSchema extends JsonLdNode {
+  '@type': 'PostalAddress';
+  streetAddress: string;
+  addressLocality: string;
+  addressCountry: string;
+}
+
+export interface PlaceSchema extends JsonLdNode {
+  '@type': 'Place';
+  address: PostalAddressSchema;
+  geo: { '@type': 'GeoCoordinates'; latitude: number; longitude: number };
+  hasMap: string;
+}
+
+// Enough to point at the lab from another schema (publisher, memberOf, ...)
+export interface OrganizationReferenceSchema extends JsonLdNode {
+  '@type': 'ResearchOrganization';
+  '@id': string;
+  name: string;
+  url: string;
+}
+
+// A sponsor or partner of the lab or of one of its teams
+export interface SponsorSchema extends JsonLdNode {
+  '@type': 'Organization';
+  name: string;
+  url?: string;
+  logo?: string;
+}
+
+export interface OrganizationSchema extends OrganizationReferenceSchema {
+  alternateName: string;
+  logo: string;
+  description: string;
+  address: PostalAddressSchema;
+  location: PlaceSchema;
+  contactPoint: { '@type': 'ContactPoint'; name: string; email: string; contactType: string }[];
+  sameAs?: string[];
+  parentOrganization: JsonLdNode;
+  sponsor?: SponsorSchema[];
+}
+
+export interface WebSiteSchema extends JsonLdNode {
+  '@type': 'WebSite';
+  name: string;
+  url: string;
+  description: string;
+  inLanguage: string;
+  publisher: OrganizationReferenceSchema;
+}
+
+export interface ContactPageSchema extends JsonLdNode {
+  '@type': 'ContactPage';
+  name: string;
+  description: string;
+  url: string;
+  inLanguage: string;
+  mainEntity: OrganizationSchema;
+}
+
+// What buildPerson() takes
+export interface PersonFields {
+  name: string;
+  url: string;
+  description?: string;
+  jobTitle?: string;
+  image?: string;
+  email?: string;
+  sameAs?: string[];
+  memberOf?: JsonLdNode[];
+}
+
+export interface PersonSchema extends JsonLdNode, PersonFields {
+  '@type': 'Person';
+}
+
+export interface BreadcrumbListSchema extends JsonLdNode {
+  '@type': 'BreadcrumbList';
+  itemListElement: { '@type': 'ListItem'; position: number; name: string; item: string }[];
+}
+
+// One step of a breadcrumb trail; the path is already localized
+export interface Breadcrumb {
+  name: string;
+  path: string;
+}
+
+// Properties that must hold absolute http(s) URLs
+const URL_PROPERTIES = new Set(['@id', 'url', 'logo', 'image', 'item', 'sameAs', 'hasMap', 'mainEntityOfPage']);
+
+function isAbsoluteUrl(value: string): boolean {
+  return /^https?:\/\/[^\s/]+/.test(value);
+}
+
+function checkNode(value: JsonLdValue | undefined, path: string, isUrl: boolean): string[] {
+  if (value === undefined) return [`${path} is undefined`];
+  if (typeof value === 'string') {
+    if (!value.trim()) return [`${path} is empty`];
+    return isUrl && !isAbsoluteUrl(value) ? [`${path} is not an absolute URL: "${value}"`] : [];
+  }
+  if (typeof value === 'number') return Number.isFinite(value) ? [] : [`${path} is not a finite number`];
+  if (typeof value === 'boolean') return [];
+  if (Array.isArray(value)) return value.flatMap((item, index) => checkNode(item, `${path}[${index}]`, isUrl));
+  if (!value['@type']) return [`${path} has no "@type"`];
+
+  return Object.entries(value).flatMap(([property, propertyValue]) =>
+    checkNode(propertyValue, `${path}.${property}`, URL_PROPERTIES.has(property))
+  );
+}
+
+function validate<T extends JsonLdNode>(node: T): WithContext<T> {
+  const problems = checkNode(node, node['@type'], false);
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${node['@type']} structured data: ${problems.join('; ')}`);
+  }
+  return { '@context': 'https://schema.org', ...node };
+}
+
+// "/news/" → "https://driftlab.ro/news/"
+export function absoluteUrl(path: string): string {
+  return new URL(path, SITE.url).href;
+}
+
+export function buildOrganizationReference(locale: Locale): OrganizationReferenceSchema {
+  return {
+    '@type': 'ResearchOrganization',
+    // The same id in every locale, so all pages describe one organization
+    '@id': `${SITE.url}/#organization`,
+    name: SITE.name,
+    url: absoluteUrl(localizePath('/', locale)),
+  };
+}
+
+function buildPostalAddress(): PostalAddressSchema {
+  return {
+    '@type': 'PostalAddress',
+    streetAddress: `${SITE.address.street}, ${SITE.address.room}`,
+    addressLocality: SITE.address.locality,
+    addressCountry: SITE.address.country,
+  };
+}
+
+// The lab's room, with map coordinates
+export function buildPlace(): PlaceSchema {
+  return {
+    '@type': 'Place',
+    address: buildPostalAddress(),
+    geo: { '@type': 'GeoCoordinates', latitude: SITE.geo.latitude, longitude: SITE.geo.longitude },
+    hasMap: SITE.mapUrl,
+  };
+}
+
+function buildOrganizationNode(locale: Locale, sponsors: SponsorSchema[]): OrganizationSchema {
+  const t = getDictionary(locale);
+  const sameAs = SITE.social.map((profile) => profile.url);
+
+  return {
+    ...buildOrganizationReference(locale),
+    alternateName: SITE.alternateName,
+    logo: absoluteUrl(SITE.logo),
+    description: t.meta.organizationDescription,
+    address: buildPostalAddress(),
+    location: buildPlace(),
+    contactPoint: SITE.contacts.map((contact) => ({
+      '@type': 'ContactPoint',
+      name: contact.name,
+      email: contact.email,
+      contactType: 'general',
+    })),
+    ...(sameAs.length > 0 && { sameAs }),
+    parentOrganization: {
+      '@type': 'Organization',
+      name: SITE.institute,
+      parentOrganization: {
+        '@type': 'EducationalOrganization',
+        name: SITE.university,
+      },
+    },
+    ...(sponsors.length > 0 && { sponsor: sponsors }),
+  };
+}
+
+// Sponsors come from the partners collection (see getPartnerSponsors())
+export function buildOrganization(locale: Locale, sponsors: SponsorSchema[] = []): WithContext<OrganizationSchema> {
+  return validate(buildOrganizationNode(locale, sponsors));
+}
+
+export function buildWebSite(locale: Locale, description: string): WithContext<WebSiteSchema> {
+  return validate({
+    '@type': 'WebSite',
+    name: SITE.name,
+    url: absoluteUrl(localizePath('/', locale)),
+    description,
+    inLanguage: LOCALE_INFO[locale].htmlLang,
+    publisher: buildOrganizationReference(locale),
+  });
+}
+
+export function buildContactPage(
+  locale: Locale,
+  page: { name: string; description: string; path: string },
+  sponsors: SponsorSchema[] = []
+): WithContext<ContactPageSchema> {
+  return validate({
+    '@type': 'ContactPage',
+    name: page.name,
+    description: page.description,
+    url: absoluteUrl(page.path),
+    inLanguage: LOCALE_INFO[locale].htmlLang,
+    mainEntity: buildOrganizationNode(locale, sponsors),
+  });
+}
+
+// Optional fields that are missing are left out rather than sent empty
+export function buildPerson(person: PersonFields): WithContext<PersonSchema> {
+  const fields = Object.fromEntries(
+    Object.entries(person).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+  ) as PersonFields;
+  return validate<PersonSchema>({ '@type': 'Person', ...fields });
+}
+
+// Home first, then the given trail down to the current page
+export function buildBreadcrumbList(locale: Locale, trail: Breadcrumb[]): WithContext<BreadcrumbListSchema> {
+  const t = getDictionary(locale);
+  const crumbs = [{ name: t.nav.home, path: localizePath('/', locale) }, ...trail];
+
+  return validate({
+    '@type': 'BreadcrumbList',
+    itemListElement: crumbs.map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      item: absoluteUrl(crumb.path),
+    })),
+  });
+}
@@ -0,0 +1,86 @@
+import { readStorage, writeStorage } from './storage';
+
+/**
+ * Light and dark color themes.
+ *
+ * The active theme is the data-theme attribute on <html>; global.css defines the palette for
+ * each value. Visitors follow prefers-color-scheme until they pick a theme with the header
+ * toggle, which is stored under THEME_STORAGE_KEY. Layout.astro applies the stored or system
+ * theme before the first paint, so pages never flash the wrong one.
+ */
+
+export const THEMES = ['dark', 'light'] as const;
+
+export type Theme = (typeof THEMES)[number];
+
+export const THEME_STORAGE_KEY = 'driftlab:theme';
+
+// Dispatched on document whenever the active theme changes; detail is a ThemeChangeDetail
+export const THEME_CHANGE_EVENT = 'theme:change';
+
+export interface ThemeChangeDetail {
+  theme: Theme;
+}
+
+// Browser UI color (<meta name="theme-color">) for each theme, matching --color-bg
+export const THEME_COLORS: Record<Theme, string> = {
+  dark: '#030305',
+  light: '#f8fafc',
+};
+
+export function isTheme(value: unknown): value is Theme {
+  return typeof value === 'string' && (THEMES as readonly string[]).includes(value);
+}
+
+export function getSystemTheme(): Theme {
+  return window.matchMedia('(prefers-color-scheme: light)').matches ? 'light' : 'dark';
+}
+
+export function getStoredTheme(): Theme | null {
+  const value = readStorage(THEME_STORAGE_KEY);
+  return isTheme(value) ? value : null;
+}
+
+export function getActiveTheme(): Theme {
+  const { theme } = document.documentElement.dataset;
+  return isTheme(theme) ? theme : getSystemTheme();
+}
+
+function applyTheme(theme: Theme): void {
+  const root = document.documentElement;
+  if (root.dataset.theme === theme) return;
+
+  root.dataset.theme = theme;
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEME_COLORS[theme]);
+  document.dispatchEvent(new CustomEvent<ThemeChangeDetail>(THEME_CHANGE_EVENT, { detail: { theme } }));
+}
+
+/**
+ * Switch to a theme chosen by the visitor. Picking the system theme forgets the stored choice,
+ * so the site follows the operating system again from then on.
+ */
+export function setTheme(theme: Theme): void {
+  writeStorage(THEME_STORAGE_KEY, theme === getSystemTheme() ? null : theme);
+  applyTheme(theme);
+}
+
+/**
+ * Follow operating system changes while the visitor has no stored choice, and choices made in
+ * other tabs. Returns a function that stops watching.
+ */
+export function watchTheme(): () => void {
+  const query = window.matchMedia('(prefers-color-scheme: light)');
+  const handleSystemChange = () => {
+    if (!getStoredTheme()) applyTheme(getSystemTheme());
+  };
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === THEME_STORAGE_KEY) applyTheme(getStoredTheme() ?? getSystemTheme());
+  };
+
+  query.addEventListener('change', handleSystemChange);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    query.removeEventListener('change', handleSystemChange);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
@@ -0,0 +1,49 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { DEFAULT_LOCALE, localizePath, type Locale } from '../i18n';
+import { getTeams, type Team } from './members';
+import { createReferenceResolver } from './references';
+
+type VehicleData = CollectionEntry<'vehicles'>['data'];
+
+// Vehicle with its team resolved and its text in the requested locale, ready for components
+export interface Vehicle extends Omit<VehicleData, 'team' | 'translations'> {
+  id: string;
+  team: Team;
+  // Locale the description is written in; differs from the requested one when it fell back to English
+  textLocale: Locale;
+}
+
+// Vehicles in vehicles.json order
+export async function getVehicles(locale: Locale = DEFAULT_LOCALE): Promise<Vehicle[]> {
+  const [entries, teams] = await Promise.all([getCollection('vehicles'), getTeams(locale)]);
+  const resolveTeam = createReferenceResolver(teams, (team) => team.id);
+
+  return entries.map((entry) => {
+    const { translations, ...data } = entry.data;
+    const translation = translations[locale] ?? {};
+    return {
+      ...data,
+      id: entry.id,
+      team: resolveTeam(data.team),
+      name: translation.name ?? data.name,
+      description: translation.description ?? data.description,
+      specs: translation.specs ?? data.specs,
+      parts: data.parts.map((part) => ({ ...part, ...translation.parts?.[part.id] })),
+      hotspots: data.hotspots.map((hotspot) => ({ ...hotspot, ...translation.hotspots?.[hotspot.id] })),
+      textLocale: translation.description ? locale : DEFAULT_LOCALE,
+    };
+  });
+}
+
+export async function getTeamVehicles(team: Pick<Team, 'id'>, locale: Locale = DEFAULT_LOCALE): Promise<Vehicle[]> {
+  return (await getVehicles(locale)).filter((vehicle) => vehicle.team.id === team.id);
+}
+
+export function getVehicleModelPath(fileName: string): string {
+  return `/models/${fileName}`;
+}
+
+// The vehicle's card on /fleet
+export function getVehicleUrl(vehicle: Pick<Vehicle, 'id'>, locale: Locale = DEFAULT_LOCALE): string {
+  return `${localizePath('/fleet/', locale)}#vehicle-${vehicle.id}`;
+}